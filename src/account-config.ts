@@ -0,0 +1,206 @@
+/**
+ * Accounts configuration validation
+ *
+ * Every account source (GSC_ACCOUNTS_JSON, GSC_ACCOUNTS_FILE, GSC_REFRESH_TOKEN)
+ * is validated with zod, then the combined set is checked for duplicate ids
+ * and emails claimed by more than one account. All problems are reported at
+ * once with the source and position of each offending entry.
+ */
+
+import { z } from 'zod';
+import type { GSCAccount } from './accounts.js';
+
+const ServiceAccountKeySchema = z
+  .object({
+    client_email: z.string().min(1),
+    private_key: z.string().min(1),
+    private_key_id: z.string().optional(),
+  })
+  .passthrough();
+
+const ServiceAccountConfigSchema = z
+  .object({
+    key: z.union([z.string().min(1), ServiceAccountKeySchema]).optional(),
+    keyFile: z.string().min(1).optional(),
+    subject: z.string().min(1).optional(),
+  })
+  .refine((val) => Boolean(val.key) !== Boolean(val.keyFile), {
+    message: 'exactly one of "key" or "keyFile" is required',
+  });
+
+const SiteSettingsSchema = z
+  .object({
+    brandTerms: z
+      .array(
+        z.string().min(1).refine(isValidRegex, { message: 'not a valid regular expression' })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export const GSCAccountSchema = z
+  .object({
+    id: z.string().min(1),
+    email: z.string().min(1),
+    refreshToken: z.string().min(1).optional(),
+    accessToken: z.string().optional(),
+    expiresAt: z.number().optional(),
+    clientId: z.string().min(1).optional(),
+    clientSecret: z.string().min(1).optional(),
+    serviceAccount: ServiceAccountConfigSchema.optional(),
+    sites: z.record(SiteSettingsSchema).optional(),
+  })
+  .superRefine((account, ctx) => {
+    if (!account.refreshToken && !account.serviceAccount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['refreshToken'],
+        message: 'missing token: either refreshToken or serviceAccount is required',
+      });
+    }
+    if (account.refreshToken && account.serviceAccount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['serviceAccount'],
+        message: 'refreshToken and serviceAccount are mutually exclusive',
+      });
+    }
+    if (Boolean(account.clientId) !== Boolean(account.clientSecret)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [account.clientId ? 'clientSecret' : 'clientId'],
+        message: 'clientId and clientSecret must be set together',
+      });
+    }
+  });
+
+export const AccountsConfigSchema = z
+  .object({
+    clientId: z.string().min(1).optional(),
+    clientSecret: z.string().min(1).optional(),
+    accounts: z.array(z.unknown()).default([]),
+  })
+  .passthrough()
+  .refine((val) => Boolean(val.clientId) === Boolean(val.clientSecret), {
+    message: 'clientId and clientSecret must be set together',
+    path: ['clientSecret'],
+  });
+
+/**
+ * A validated account together with where it was defined
+ */
+export interface SourcedAccount {
+  account: GSCAccount;
+  location: string;
+}
+
+/**
+ * Validate one account source. Config-level clientId/clientSecret become the
+ * default credentials of that source's accounts.
+ */
+export function parseAccountsSource(
+  source: string,
+  read: () => unknown
+): { accounts: SourcedAccount[]; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = read();
+  } catch (e) {
+    return { accounts: [], errors: [`${source}: ${e instanceof Error ? e.message : e}`] };
+  }
+
+  const config = AccountsConfigSchema.safeParse(raw);
+  if (!config.success) {
+    return { accounts: [], errors: formatIssues(source, config.error) };
+  }
+
+  // Validate entries one by one so valid ones still take part in collision checks
+  const { clientId, clientSecret } = config.data;
+  const accounts: SourcedAccount[] = [];
+  const errors: string[] = [];
+
+  config.data.accounts.forEach((entry, index) => {
+    const location = `${source} accounts[${index}]`;
+    const result = GSCAccountSchema.safeParse(entry);
+    if (!result.success) {
+      errors.push(...formatIssues(location, result.error));
+      return;
+    }
+    const account = result.data;
+    accounts.push({
+      account: account.clientId || !clientId ? account : { ...account, clientId, clientSecret },
+      location,
+    });
+  });
+
+  return { accounts, errors };
+}
+
+/**
+ * Find duplicate ids and emails claimed by more than one account id.
+ * Accounts are looked up by id or email, so an id equal to another
+ * account's email is a collision as well.
+ */
+export function findAccountCollisions(entries: SourcedAccount[]): string[] {
+  const errors: string[] = [];
+  const byId = new Map<string, SourcedAccount>();
+  const byEmail = new Map<string, SourcedAccount>();
+
+  for (const entry of entries) {
+    const { id } = entry.account;
+    const email = entry.account.email.toLowerCase();
+
+    const sameId = byId.get(id);
+    if (sameId) {
+      errors.push(`Duplicate account id "${id}" (${sameId.location}, ${entry.location})`);
+      continue;
+    }
+
+    const sameEmail = byEmail.get(email);
+    if (sameEmail && sameEmail.account.id !== id) {
+      errors.push(
+        `Email ${entry.account.email} is used by both "${sameEmail.account.id}" (${sameEmail.location}) and "${id}" (${entry.location})`
+      );
+    }
+
+    const emailAsId = byEmail.get(id.toLowerCase());
+    if (emailAsId && emailAsId.account.id !== id) {
+      errors.push(`Account id "${id}" (${entry.location}) is the email of "${emailAsId.account.id}" (${emailAsId.location})`);
+    }
+    const idAsEmail = byId.get(email);
+    if (idAsEmail) {
+      errors.push(`Email ${entry.account.email} of "${id}" (${entry.location}) is the id of another account (${idAsEmail.location})`);
+    }
+
+    byId.set(id, entry);
+    byEmail.set(email, entry);
+  }
+
+  return errors;
+}
+
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a list of problems as a single error message
+ */
+export function formatConfigErrors(errors: string[]): string {
+  return `Invalid accounts configuration:\n${errors.map(e => `  - ${e}`).join('\n')}`;
+}
+
+function formatIssues(location: string, error: z.ZodError): string[] {
+  return error.errors.map(issue => {
+    const path = issue.path.reduce<string>(
+      (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : `${acc}.${part}`),
+      ''
+    );
+    return `${location}${path}: ${issue.message}`;
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Encryption at rest for the accounts file
+ *
+ * An encrypted accounts file is a JSON envelope holding the AES-256-GCM
+ * ciphertext of the plaintext accounts JSON. The 256-bit key is derived with
+ * scrypt from a secret supplied via:
+ * 1. GSC_ACCOUNTS_KEY: the secret itself
+ * 2. GSC_ACCOUNTS_KEY_FILE: path to a file containing the secret
+ *
+ * Envelope format:
+ * {
+ *   "format": "gsc-accounts-encrypted",
+ *   "version": 1,
+ *   "algorithm": "aes-256-gcm",
+ *   "kdf": "scrypt",
+ *   "salt": "...", "iv": "...", "tag": "...", "data": "..."  // base64
+ * }
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+const ENVELOPE_FORMAT = 'gsc-accounts-encrypted';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Check whether parsed file content is an encrypted envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { format?: unknown }).format === ENVELOPE_FORMAT
+  );
+}
+
+/**
+ * Encrypt a plaintext string with a secret
+ */
+export function encryptAccounts(plaintext: string, secret: string): EncryptedEnvelope {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const key = crypto.scryptSync(secret, salt, KEY_LENGTH);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    format: ENVELOPE_FORMAT,
+    version: 1,
+    algorithm: 'aes-256-gcm',
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt an envelope back to the plaintext string
+ */
+export function decryptAccounts(envelope: EncryptedEnvelope, secret: string): string {
+  if (envelope.version !== 1 || envelope.algorithm !== 'aes-256-gcm' || envelope.kdf !== 'scrypt') {
+    throw new Error(`Unsupported encrypted accounts file (version ${envelope.version}, ${envelope.algorithm})`);
+  }
+
+  const key = crypto.scryptSync(secret, Buffer.from(envelope.salt, 'base64'), KEY_LENGTH);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error('Failed to decrypt accounts file: wrong key or corrupted data');
+  }
+}
+
+/**
+ * Read a secret from a key file
+ */
+export function readKeyFile(keyFile: string): string {
+  const secret = fs.readFileSync(keyFile, 'utf-8').trim();
+  if (!secret) {
+    throw new Error(`Key file is empty: ${keyFile}`);
+  }
+  return secret;
+}
+
+/**
+ * Load the accounts encryption secret from GSC_ACCOUNTS_KEY or GSC_ACCOUNTS_KEY_FILE
+ */
+export function loadAccountsKey(): string | undefined {
+  if (process.env.GSC_ACCOUNTS_KEY) {
+    return process.env.GSC_ACCOUNTS_KEY;
+  }
+  if (process.env.GSC_ACCOUNTS_KEY_FILE) {
+    return readKeyFile(process.env.GSC_ACCOUNTS_KEY_FILE);
+  }
+  return undefined;
+}
+
+/**
+ * Generate a random secret suitable for GSC_ACCOUNTS_KEY
+ */
+export function generateAccountsKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64');
+}
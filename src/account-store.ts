@@ -0,0 +1,173 @@
+/**
+ * Persistent account store
+ *
+ * Writes runtime registrations, removals and refreshed tokens back to the
+ * accounts file (GSC_ACCOUNTS_FILE) so they survive restarts.
+ *
+ * Every change is a read-modify-write done under an exclusive lock file, so
+ * two server processes sharing the same file don't clobber each other. The
+ * new content goes to a temp file that is then renamed over the original,
+ * which means readers never see a half-written file.
+ *
+ * If an encryption secret is given, the file is written as an encrypted
+ * envelope (see account-crypto.ts). Encrypted and plaintext files are both
+ * read transparently.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GSCAccount } from './accounts.js';
+import { decryptAccounts, encryptAccounts, isEncryptedEnvelope } from './account-crypto.js';
+import { withFileLock } from './file-lock.js';
+
+/**
+ * On-disk accounts file. Unknown top-level fields are preserved on rewrite.
+ */
+export interface AccountsFile {
+  accounts: GSCAccount[];
+  [key: string]: unknown;
+}
+
+export interface AccountStore {
+  /** Read all stored accounts */
+  read(): AccountsFile;
+  /** Add or replace an account (matched by id) */
+  upsert(account: GSCAccount): Promise<void>;
+  /** Remove an account by id */
+  remove(id: string): Promise<void>;
+  /** Update the cached access token of an account */
+  updateTokens(id: string, accessToken?: string, expiresAt?: number): Promise<void>;
+}
+
+export class FileAccountStore implements AccountStore {
+  private filePath: string;
+  private secret?: string;
+
+  constructor(filePath: string, secret?: string) {
+    this.filePath = path.resolve(filePath);
+    this.secret = secret;
+  }
+
+  /**
+   * Read the accounts file. A missing file is treated as empty.
+   */
+  read(): AccountsFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { accounts: [] };
+    }
+
+    let config = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    if (isEncryptedEnvelope(config)) {
+      if (!this.secret) {
+        throw new Error(
+          `${this.filePath} is encrypted. Set GSC_ACCOUNTS_KEY or GSC_ACCOUNTS_KEY_FILE to read it`
+        );
+      }
+      config = JSON.parse(decryptAccounts(config, this.secret));
+    }
+    return { ...config, accounts: config.accounts || [] };
+  }
+
+  /**
+   * Whether the file is currently stored encrypted
+   */
+  isEncrypted(): boolean {
+    if (!fs.existsSync(this.filePath)) return false;
+    return isEncryptedEnvelope(JSON.parse(fs.readFileSync(this.filePath, 'utf-8')));
+  }
+
+  /**
+   * Rewrite the whole file with a new secret. Used to encrypt a plaintext
+   * file or rotate the key of an encrypted one.
+   */
+  async rekey(newSecret: string): Promise<number> {
+    let count = 0;
+    await this.withLock(() => {
+      const config = this.read();
+      count = config.accounts.length;
+      this.writeAtomic(this.serialize(config, newSecret));
+      this.secret = newSecret;
+    });
+    return count;
+  }
+
+  async upsert(account: GSCAccount): Promise<void> {
+    await this.update(config => {
+      const index = config.accounts.findIndex(a => a.id === account.id);
+      if (index >= 0) {
+        config.accounts[index] = account;
+      } else {
+        config.accounts.push(account);
+      }
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.update(config => {
+      config.accounts = config.accounts.filter(a => a.id !== id);
+    });
+  }
+
+  async updateTokens(id: string, accessToken?: string, expiresAt?: number): Promise<void> {
+    await this.update(config => {
+      const account = config.accounts.find(a => a.id === id);
+      if (account) {
+        account.accessToken = accessToken;
+        account.expiresAt = expiresAt;
+      }
+    });
+  }
+
+  /**
+   * Apply a mutation to the latest file content under the lock
+   */
+  private async update(mutate: (config: AccountsFile) => void): Promise<void> {
+    await this.withLock(() => {
+      const config = this.read();
+      mutate(config);
+      this.writeAtomic(this.serialize(config));
+    });
+  }
+
+  private serialize(config: AccountsFile, secret: string | undefined = this.secret): string {
+    const plaintext = JSON.stringify(config, null, 2);
+    if (!secret) {
+      return plaintext + '\n';
+    }
+    return JSON.stringify(encryptAccounts(plaintext, secret), null, 2) + '\n';
+  }
+
+  /**
+   * Write to a temp file in the same directory, then rename over the target
+   */
+  private writeAtomic(content: string): void {
+    const dir = path.dirname(this.filePath);
+    const tmpPath = path.join(
+      dir,
+      `.${path.basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+
+    fs.mkdirSync(dir, { recursive: true });
+    const fd = fs.openSync(tmpPath, 'w', 0o600);
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    try {
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      fs.rmSync(tmpPath, { force: true });
+      throw e;
+    }
+  }
+
+  /**
+   * Run a function while holding an exclusive lock file next to the store
+   */
+  private withLock<T>(fn: () => T): Promise<T> {
+    return withFileLock(this.filePath, fn);
+  }
+}
@@ -6,45 +6,159 @@
  * 2. Config file path (GSC_ACCOUNTS_FILE)
  * 3. Runtime registration via tool
  * 
+ * When GSC_ACCOUNTS_FILE is set, accounts registered or removed at runtime and
+ * refreshed access tokens are written back to that file (unless
+ * GSC_ACCOUNTS_READONLY=true). Accounts from other sources are never persisted.
+ * 
+ * The accounts file may be encrypted at rest (see account-crypto.ts); it is
+ * decrypted with GSC_ACCOUNTS_KEY or GSC_ACCOUNTS_KEY_FILE.
+ * 
+ * The configuration is validated on load (see account-config.ts); any problem
+ * (duplicate ids, email collisions, missing tokens...) aborts startup.
+ * 
+ * API calls of every account are counted and throttled by a shared quota
+ * ledger (see quota.ts).
+ * 
  * Account format:
  * {
+ *   "clientId": "...",                  // optional defaults for this source's accounts
+ *   "clientSecret": "...",
  *   "accounts": [
  *     {
  *       "id": "main",
  *       "email": "user@gmail.com",
  *       "refreshToken": "1//...",
  *       "accessToken": "ya29...",  // optional, will be refreshed
+ *       "clientId": "...",         // optional, OAuth client that minted the token
+ *       "clientSecret": "...",
+ *       "sites": {                 // optional, per-property settings
+ *         "sc-domain:example.com": { "brandTerms": ["example", "exmple"] }
+ *       }
+ *     },
+ *     {
+ *       "id": "automation",
+ *       "email": "bot@project.iam.gserviceaccount.com",
+ *       "serviceAccount": {
+ *         "keyFile": "/path/to/key.json",  // or "key": { ...inline key JSON... }
+ *         "subject": "user@example.com"    // optional, domain-wide delegation
+ *       }
  *     }
  *   ]
  * }
  */
 
-import { OAuth2Client } from 'google-auth-library';
 import * as fs from 'fs';
+import { JWT, OAuth2Client } from 'google-auth-library';
+import { AccountStore, FileAccountStore } from './account-store.js';
+import { loadAccountsKey } from './account-crypto.js';
+import { AuthorizationFlow, GSC_SCOPES, getOAuthEndpoints } from './oauth-flow.js';
+import {
+  SourcedAccount,
+  findAccountCollisions,
+  formatConfigErrors,
+  parseAccountsSource,
+} from './account-config.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { QuotaLedger } from './quota.js';
+import { SearchConsoleService } from './search-console.js';
+import { SiteCandidate, SiteIndexEntry, canServe, explainChoice, rankSiteCandidates } from './site-routing.js';
+
+// How long the site -> account index is reused before listing sites again
+const SITE_INDEX_TTL_MS = 30 * 60 * 1000;
+// Accounts listing their sites at the same time when building the index
+const SITE_INDEX_CONCURRENCY = 4;
+
+export interface SiteIndex {
+  builtAt: number;
+  entries: SiteIndexEntry[];
+  // Accounts whose sites could not be listed
+  errors: { accountId: string; email: string; error: string }[];
+}
+
+export interface SiteOwnerResolution {
+  siteUrl: string;
+  chosen?: SiteCandidate;
+  candidates: SiteCandidate[];
+  reason: string;
+  indexBuiltAt: string;
+  accountErrors: SiteIndex['errors'];
+}
+
+/**
+ * Service-account key reference. Exactly one of key or keyFile is required.
+ */
+export interface ServiceAccountConfig {
+  // Inline key, as the parsed JSON object or its string form
+  key?: ServiceAccountKey | string;
+  keyFile?: string;
+  // User to impersonate (domain-wide delegation)
+  subject?: string;
+}
+
+export interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Per-property settings stored with an account
+ */
+export interface SiteSettings {
+  // Regexes (case-insensitive) matching branded queries
+  brandTerms?: string[];
+}
 
 export interface GSCAccount {
   id: string;
   email: string;
-  refreshToken: string;
+  // Required for OAuth accounts
+  refreshToken?: string;
   accessToken?: string;
   expiresAt?: number;
+  // OAuth client that minted the refresh token (defaults to GOOGLE_CLIENT_ID/SECRET)
+  clientId?: string;
+  clientSecret?: string;
+  // Set for service-account accounts
+  serviceAccount?: ServiceAccountConfig;
+  // Settings by property, keyed by site URL or sc-domain property
+  sites?: Record<string, SiteSettings>;
 }
 
 export interface AccountsConfig {
-  clientId: string;
-  clientSecret: string;
+  // Default client credentials for the accounts of this config
+  clientId?: string;
+  clientSecret?: string;
   accounts: GSCAccount[];
 }
 
 export class AccountManager {
   private accounts: Map<string, GSCAccount> = new Map();
   private authClients: Map<string, OAuth2Client> = new Map();
-  private clientId: string;
-  private clientSecret: string;
+  private clientId?: string;
+  private clientSecret?: string;
+  private store?: AccountStore;
+  // Ids of accounts that live in the store (as opposed to env-only accounts)
+  private persistedIds: Set<string> = new Set();
+  private siteIndex?: SiteIndex;
+  private siteIndexBuild?: Promise<SiteIndex>;
+  // Bumped on invalidation so an in-flight build doesn't cache stale results
+  private siteIndexGeneration = 0;
 
-  constructor(clientId: string, clientSecret: string) {
+  // Calls and daily quota usage of every account
+  readonly quota: QuotaLedger;
+
+  constructor(
+    clientId: string | undefined,
+    clientSecret: string | undefined,
+    store?: AccountStore,
+    quota: QuotaLedger = new QuotaLedger()
+  ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
+    this.store = store;
+    this.quota = quota;
   }
 
   /**
@@ -54,35 +168,36 @@ export class AccountManager {
     const clientId = process.env.GOOGLE_CLIENT_ID;
     const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
 
-    if (!clientId || !clientSecret) {
-      throw new Error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET are required');
-    }
+    const accountsFile = process.env.GSC_ACCOUNTS_FILE;
+    const store = accountsFile ? new FileAccountStore(accountsFile, loadAccountsKey()) : undefined;
+    const readonly = process.env.GSC_ACCOUNTS_READONLY === 'true';
+
+    const manager = new AccountManager(
+      clientId,
+      clientSecret,
+      readonly ? undefined : store,
+      QuotaLedger.fromEnvironment()
+    );
 
-    const manager = new AccountManager(clientId, clientSecret);
+    const loaded: SourcedAccount[] = [];
+    const errors: string[] = [];
+    const collect = (source: string, read: () => unknown) => {
+      const result = parseAccountsSource(source, read);
+      loaded.push(...result.accounts);
+      errors.push(...result.errors);
+      return result.accounts;
+    };
 
     // Try loading from JSON env var
     const accountsJson = process.env.GSC_ACCOUNTS_JSON;
     if (accountsJson) {
-      try {
-        const config = JSON.parse(accountsJson);
-        for (const account of config.accounts || []) {
-          manager.addAccount(account);
-        }
-      } catch (e) {
-        console.error('Failed to parse GSC_ACCOUNTS_JSON:', e);
-      }
+      collect('GSC_ACCOUNTS_JSON', () => JSON.parse(accountsJson));
     }
 
     // Try loading from file
-    const accountsFile = process.env.GSC_ACCOUNTS_FILE;
-    if (accountsFile && fs.existsSync(accountsFile)) {
-      try {
-        const config = JSON.parse(fs.readFileSync(accountsFile, 'utf-8'));
-        for (const account of config.accounts || []) {
-          manager.addAccount(account);
-        }
-      } catch (e) {
-        console.error('Failed to load GSC_ACCOUNTS_FILE:', e);
+    if (store) {
+      for (const { account } of collect('GSC_ACCOUNTS_FILE', () => store.read())) {
+        manager.persistedIds.add(account.id);
       }
     }
 
@@ -90,14 +205,26 @@ export class AccountManager {
     const singleRefreshToken = process.env.GSC_REFRESH_TOKEN;
     const singleEmail = process.env.GSC_EMAIL || 'default';
     if (singleRefreshToken) {
-      manager.addAccount({
-        id: 'default',
-        email: singleEmail,
-        refreshToken: singleRefreshToken,
-        accessToken: process.env.GSC_ACCESS_TOKEN,
+      loaded.push({
+        account: {
+          id: 'default',
+          email: singleEmail,
+          refreshToken: singleRefreshToken,
+          accessToken: process.env.GSC_ACCESS_TOKEN,
+        },
+        location: 'GSC_REFRESH_TOKEN',
       });
     }
 
+    errors.push(...findAccountCollisions(loaded));
+    if (errors.length > 0) {
+      throw new Error(formatConfigErrors(errors));
+    }
+
+    for (const { account } of loaded) {
+      manager.addAccount(account);
+    }
+
     return manager;
   }
 
@@ -111,26 +238,135 @@ export class AccountManager {
     // Clear cached auth client
     this.authClients.delete(account.id);
     this.authClients.delete(account.email.toLowerCase());
+    this.invalidateSiteIndex();
+  }
+
+  /**
+   * Remove an account from memory
+   */
+  removeAccount(account: GSCAccount): void {
+    this.accounts.delete(account.id);
+    this.accounts.delete(account.email.toLowerCase());
+    this.authClients.delete(account.id);
+    this.persistedIds.delete(account.id);
+    this.invalidateSiteIndex();
+  }
+
+  /**
+   * Register an account at runtime (via MCP tool), persisting it if a store is configured
+   */
+  async registerAccount(account: GSCAccount): Promise<void> {
+    const existing = this.getAccount(account.email);
+    if (existing && existing.id !== account.id) {
+      throw new Error(`Email ${account.email} is already used by account ${existing.id}`);
+    }
+    const sameId = this.accounts.get(account.id);
+    if (sameId && sameId.id !== account.id) {
+      throw new Error(`Account id ${account.id} is already the email of account ${sameId.id}`);
+    }
+
+    const previous = this.accounts.get(account.id);
+    if (previous) {
+      // Re-authorizing an account keeps its site settings
+      account = { ...account, sites: account.sites ?? previous.sites };
+    }
+
+    // Saved first, so a failed write leaves the in-memory accounts unchanged
+    if (this.store) {
+      await this.store.upsert(account);
+    }
+
+    // Replacing an account with a new email must drop the old email index
+    if (previous) {
+      this.removeAccount(previous);
+    }
+    this.addAccount(account);
+    if (this.store) {
+      this.persistedIds.add(account.id);
+    }
   }
 
   /**
-   * Register an account at runtime (via MCP tool)
+   * Unregister an account by ID or email, removing it from the store as well
    */
-  registerAccount(id: string, email: string, refreshToken: string, accessToken?: string): void {
-    this.addAccount({ id, email, refreshToken, accessToken });
+  async unregisterAccount(idOrEmail: string): Promise<GSCAccount> {
+    const account = this.getAccount(idOrEmail);
+    if (!account) {
+      throw new Error(`Account not found: ${idOrEmail}`);
+    }
+
+    // Removed from the file first, so a failed write leaves the account registered
+    if (this.store && this.persistedIds.has(account.id)) {
+      await this.store.remove(account.id);
+    }
+    this.removeAccount(account);
+    return account;
+  }
+
+  /**
+   * Settings of a property: those stored under the site URL as given, else
+   * under the sc-domain property of its host (with and without www.)
+   */
+  getSiteSettings(idOrEmail: string, siteUrl: string): SiteSettings | undefined {
+    const sites = this.getAccount(idOrEmail)?.sites;
+    if (!sites) return undefined;
+    if (sites[siteUrl]) return sites[siteUrl];
+
+    let host: string;
+    try {
+      host = new URL(siteUrl).hostname;
+    } catch {
+      return undefined;
+    }
+    return sites[`sc-domain:${host}`] ?? sites[`sc-domain:${host.replace(/^www\./, '')}`];
+  }
+
+  /**
+   * Replace the settings of a property, persisting them if the account lives in the store
+   */
+  async setSiteSettings(idOrEmail: string, siteUrl: string, settings: SiteSettings): Promise<boolean> {
+    const account = this.getAccount(idOrEmail);
+    if (!account) {
+      throw new Error(`Account not found: ${idOrEmail}`);
+    }
+    account.sites = { ...account.sites, [siteUrl]: settings };
+
+    const persisted = Boolean(this.store && this.persistedIds.has(account.id));
+    if (persisted) {
+      await this.store!.upsert(account);
+    }
+    return persisted;
+  }
+
+  /**
+   * Create an OAuth consent flow using this manager's client credentials
+   */
+  createAuthorizationFlow(): AuthorizationFlow {
+    return new AuthorizationFlow(this.clientId, this.clientSecret);
+  }
+
+  /**
+   * Whether runtime changes are written back to the accounts file
+   */
+  get persistent(): boolean {
+    return this.store !== undefined;
   }
 
   /**
    * List all registered accounts
    */
-  listAccounts(): { id: string; email: string }[] {
+  listAccounts(): { id: string; email: string; type: 'oauth' | 'service_account' }[] {
     const seen = new Set<string>();
-    const result: { id: string; email: string }[] = [];
+    const result: { id: string; email: string; type: 'oauth' | 'service_account' }[] = [];
     
     for (const [key, account] of this.accounts) {
       if (!seen.has(account.id)) {
         seen.add(account.id);
-        result.push({ id: account.id, email: account.email });
+        result.push({
+          id: account.id,
+          email: account.email,
+          type: account.serviceAccount ? 'service_account' : 'oauth',
+        });
       }
     }
     
@@ -145,7 +381,8 @@ export class AccountManager {
   }
 
   /**
-   * Get OAuth2Client for an account
+   * Get an auth client for an account: an OAuth2Client for refresh-token
+   * accounts, or a JWT client (which extends OAuth2Client) for service accounts
    */
   async getAuthClient(idOrEmail?: string): Promise<{ client: OAuth2Client; account: GSCAccount }> {
     // Get account (use first if not specified)
@@ -170,26 +407,22 @@ export class AccountManager {
     let client = this.authClients.get(cacheKey);
 
     if (!client) {
-      client = new OAuth2Client(this.clientId, this.clientSecret, 'http://localhost');
-      
-      client.setCredentials({
-        refresh_token: account.refreshToken,
-        access_token: account.accessToken,
-      });
-
-      // Auto-refresh handler
-      client.on('tokens', (tokens) => {
-        if (tokens.access_token) {
-          account!.accessToken = tokens.access_token;
-          if (tokens.expiry_date) {
-            account!.expiresAt = tokens.expiry_date;
-          }
-        }
-      });
-
+      client = account.serviceAccount
+        ? this.createServiceAccountClient(account, account.serviceAccount)
+        : this.createOAuthClient(account);
       this.authClients.set(cacheKey, client);
     }
 
+    if (account.serviceAccount) {
+      // JWT clients sign a new assertion whenever the cached token expires
+      try {
+        await client.getAccessToken();
+      } catch (e) {
+        throw new Error(`Failed to authorize service account ${account.email}: ${e}`);
+      }
+      return { client, account };
+    }
+
     // Ensure we have a valid token
     const tokens = client.credentials;
     const now = Date.now();
@@ -210,6 +443,220 @@ export class AccountManager {
     return { client, account };
   }
 
+  /**
+   * Build an OAuth2Client from a refresh token
+   */
+  private createOAuthClient(account: GSCAccount): OAuth2Client {
+    if (!account.refreshToken) {
+      throw new Error(`Account ${account.id} has neither a refreshToken nor a serviceAccount`);
+    }
+
+    const clientId = account.clientId || this.clientId;
+    const clientSecret = account.clientId ? account.clientSecret : this.clientSecret;
+    if (!clientId || !clientSecret) {
+      throw new Error(
+        `No OAuth client for ${account.id}: set clientId/clientSecret on the account or GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET`
+      );
+    }
+
+    const client = new OAuth2Client({
+      clientId,
+      clientSecret,
+      redirectUri: 'http://localhost',
+      endpoints: getOAuthEndpoints(),
+    });
+    
+    client.setCredentials({
+      refresh_token: account.refreshToken,
+      access_token: account.accessToken,
+    });
+
+    // Auto-refresh handler
+    client.on('tokens', (tokens) => {
+      if (tokens.access_token) {
+        account.accessToken = tokens.access_token;
+        if (tokens.expiry_date) {
+          account.expiresAt = tokens.expiry_date;
+        }
+        this.persistTokens(account);
+      }
+    });
+
+    return client;
+  }
+
+  /**
+   * Build a JWT client from a service-account key
+   */
+  private createServiceAccountClient(account: GSCAccount, config: ServiceAccountConfig): JWT {
+    const key = this.readServiceAccountKey(account, config);
+    return new JWT({
+      email: key.client_email,
+      key: key.private_key,
+      keyId: key.private_key_id,
+      scopes: GSC_SCOPES,
+      subject: config.subject,
+    });
+  }
+
+  /**
+   * Google Cloud project an account's calls are billed to, which
+   * project-scoped quotas (Indexing API publish) are counted against: the
+   * OAuth client ID, or the project of a service account
+   */
+  quotaProject(idOrEmail: string): string | undefined {
+    const account = this.getAccount(idOrEmail);
+    if (!account) return undefined;
+    if (!account.serviceAccount) return account.clientId || this.clientId;
+    try {
+      const key = this.readServiceAccountKey(account, account.serviceAccount);
+      return typeof key.project_id === 'string' ? key.project_id : key.client_email;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private readServiceAccountKey(account: GSCAccount, config: ServiceAccountConfig): ServiceAccountKey {
+    let key: ServiceAccountKey;
+    try {
+      if (config.key) {
+        key = typeof config.key === 'string' ? JSON.parse(config.key) : config.key;
+      } else if (config.keyFile) {
+        key = JSON.parse(fs.readFileSync(config.keyFile, 'utf-8'));
+      } else {
+        throw new Error('serviceAccount needs either "key" or "keyFile"');
+      }
+    } catch (e) {
+      throw new Error(`Invalid service account key for ${account.id}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    if (!key.client_email || !key.private_key) {
+      throw new Error(`Invalid service account key for ${account.id}: missing client_email or private_key`);
+    }
+    return key;
+  }
+
+  /**
+   * Get the site -> account index, listing the sites of every account if the
+   * cached index is missing or stale
+   */
+  async getSiteIndex(refresh: boolean = false): Promise<SiteIndex> {
+    if (!refresh && this.siteIndex && Date.now() - this.siteIndex.builtAt < SITE_INDEX_TTL_MS) {
+      return this.siteIndex;
+    }
+    // Share one build between concurrent callers
+    if (!this.siteIndexBuild) {
+      const build = this.buildSiteIndex().finally(() => {
+        if (this.siteIndexBuild === build) this.siteIndexBuild = undefined;
+      });
+      this.siteIndexBuild = build;
+    }
+    return this.siteIndexBuild;
+  }
+
+  /**
+   * Drop the cached site index (after account or property changes)
+   */
+  invalidateSiteIndex(): void {
+    this.siteIndex = undefined;
+    this.siteIndexBuild = undefined;
+    this.siteIndexGeneration++;
+  }
+
+  /**
+   * Pick the account best suited to query a site
+   */
+  async findSiteOwner(siteUrl: string, refresh: boolean = false): Promise<SiteOwnerResolution> {
+    const index = await this.getSiteIndex(refresh);
+    const candidates = rankSiteCandidates(siteUrl, index.entries);
+    const chosen = candidates.find(canServe);
+
+    let reason: string;
+    if (chosen) {
+      reason = explainChoice(chosen, candidates);
+    } else if (candidates.length > 0) {
+      reason = `No account has access to ${siteUrl} or a domain property covering it; related properties: ${candidates
+        .map(c => `${c.siteUrl} (${c.email})`)
+        .join(', ')}`;
+    } else {
+      reason = `No account has verified access to ${siteUrl}`;
+    }
+
+    return {
+      siteUrl,
+      chosen,
+      candidates,
+      reason,
+      indexBuiltAt: new Date(index.builtAt).toISOString(),
+      accountErrors: index.errors,
+    };
+  }
+
+  /**
+   * Resolve which account to use for a tool call: the explicit one if given,
+   * else the best owner of siteUrl, else the first account
+   */
+  async resolveAccountForSite(idOrEmail?: string, siteUrl?: string): Promise<string | undefined> {
+    if (idOrEmail || !siteUrl || this.count < 2) {
+      return idOrEmail;
+    }
+    const { chosen } = await this.findSiteOwner(siteUrl);
+    return chosen?.accountId;
+  }
+
+  private async buildSiteIndex(): Promise<SiteIndex> {
+    const generation = this.siteIndexGeneration;
+    const accounts = this.listAccounts();
+    const results = await mapWithConcurrency(
+      accounts,
+      SITE_INDEX_CONCURRENCY,
+      async ({ id, email }): Promise<PromiseSettledResult<SiteIndexEntry[]>> => {
+        try {
+          const { client } = await this.getAuthClient(id);
+          const result = await new SearchConsoleService(client).listSites();
+          const entries = (result.data.siteEntry || []).map(site => ({
+            siteUrl: site.siteUrl || '',
+            permissionLevel: site.permissionLevel || '',
+            accountId: id,
+            email,
+          }));
+          return { status: 'fulfilled', value: entries };
+        } catch (reason) {
+          return { status: 'rejected', reason };
+        }
+      }
+    );
+
+    const index: SiteIndex = { builtAt: Date.now(), entries: [], errors: [] };
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        index.entries.push(...result.value);
+      } else {
+        index.errors.push({
+          accountId: accounts[i].id,
+          email: accounts[i].email,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+
+    if (generation === this.siteIndexGeneration) {
+      this.siteIndex = index;
+    }
+    return index;
+  }
+
+  /**
+   * Write refreshed tokens back to the store (fire and forget)
+   */
+  private persistTokens(account: GSCAccount): void {
+    if (!this.store || !this.persistedIds.has(account.id)) return;
+
+    this.store
+      .updateTokens(account.id, account.accessToken, account.expiresAt)
+      .catch(e => console.error(`Failed to persist refreshed token for ${account.email}:`, e));
+  }
+
   /**
    * Get total number of unique accounts
    */
@@ -0,0 +1,308 @@
+/**
+ * Anomaly detection on daily performance series
+ *
+ * Each metric is modeled as a local level times a weekday factor: the level
+ * is the median of the deseasonalized values of the previous 28 days, the
+ * weekday factors the median ratio of each weekday to its centered weekly
+ * mean. Days whose residual exceeds a robust z-score (MAD-based, with a
+ * Poisson floor for counts) are flagged as drops or spikes.
+ *
+ * With a segment dimension, each anomaly is attributed to the segments whose
+ * value moved most against their own baseline (the median of the same
+ * weekday over the previous four weeks).
+ */
+
+import type { webmasters_v3 } from 'googleapis';
+import { SearchConsoleService, listDays } from './search-console.js';
+import { addDays, availableDateWindow } from './schemas.js';
+
+type DimensionFilterGroup = webmasters_v3.Schema$ApiDimensionFilterGroup;
+
+export type AnomalyMetric = 'clicks' | 'impressions' | 'ctr' | 'position';
+export type SegmentDimension = 'page' | 'query' | 'country' | 'device';
+
+// Days of history before the analyzed range used to fit the baseline
+const BASELINE_DAYS = 28;
+// Days of history a day needs before it can be scored
+const MIN_HISTORY_DAYS = 14;
+// Consistency constant turning a MAD into a standard deviation
+const MAD_SCALE = 1.4826;
+// Smallest residual scale for rate metrics, so flat series don't flag noise
+const MIN_SCALE: Record<AnomalyMetric, number> = { clicks: 1, impressions: 1, ctr: 0.002, position: 0.2 };
+const TOP_CONTRIBUTORS = 5;
+
+export interface AnomalyContributor {
+  segment: string;
+  value: number;
+  baseline: number;
+  // Change attributed to the segment, in the metric's unit; CTR and position
+  // changes are weighted by the segment's share of the day's impressions
+  contribution: number;
+  // Share of the summed contributions, in percent
+  share: number;
+}
+
+export interface Anomaly {
+  date: string;
+  metric: AnomalyMetric;
+  value: number;
+  expected: number;
+  change: number;
+  changePercent: number | null;
+  zScore: number;
+  direction: 'drop' | 'spike';
+  // Whether the change is bad for the site (a position increase is a drop in ranking)
+  impact: 'negative' | 'positive';
+  contributors?: AnomalyContributor[];
+}
+
+export interface AnomalyOptions {
+  startDate: string;
+  endDate: string;
+  metrics: AnomalyMetric[];
+  // Robust z-score above which a day is flagged
+  threshold: number;
+  segmentDimension?: SegmentDimension;
+  // Segment rows to fetch for attribution
+  maxSegmentRows?: number;
+  dimensionFilterGroups?: DimensionFilterGroup[];
+}
+
+export interface AnomalyReport {
+  analyzedRange: { start: string; end: string };
+  baselineRange: { start: string; end: string };
+  daysScored: number;
+  anomalies: Anomaly[];
+}
+
+interface DayTotals {
+  clicks: number;
+  impressions: number;
+  // Impressions-weighted position sum
+  positionSum: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function metricValue(totals: DayTotals | undefined, metric: AnomalyMetric): number {
+  if (!totals) return metric === 'clicks' || metric === 'impressions' ? 0 : NaN;
+  switch (metric) {
+    case 'clicks':
+      return totals.clicks;
+    case 'impressions':
+      return totals.impressions;
+    case 'ctr':
+      return totals.impressions > 0 ? totals.clicks / totals.impressions : NaN;
+    case 'position':
+      return totals.impressions > 0 ? totals.positionSum / totals.impressions : NaN;
+  }
+}
+
+function addRow(map: Map<string, DayTotals>, key: string, row: webmasters_v3.Schema$ApiDataRow): void {
+  const totals = map.get(key) || { clicks: 0, impressions: 0, positionSum: 0 };
+  totals.clicks += row.clicks || 0;
+  totals.impressions += row.impressions || 0;
+  totals.positionSum += (row.position || 0) * (row.impressions || 0);
+  map.set(key, totals);
+}
+
+/**
+ * Median ratio of each weekday to the centered 7-day mean, normalized to average 1
+ */
+function weekdayFactors(values: number[], dates: string[]): number[] {
+  const ratios: number[][] = Array.from({ length: 7 }, () => []);
+  for (let i = 3; i < values.length - 3; i++) {
+    const window = values.slice(i - 3, i + 4).filter(value => !Number.isNaN(value));
+    const mean = window.reduce((sum, value) => sum + value, 0) / window.length;
+    if (window.length === 7 && mean > 0 && !Number.isNaN(values[i])) {
+      ratios[weekday(dates[i])].push(values[i] / mean);
+    }
+  }
+  const factors = ratios.map(list => (list.length > 0 ? median(list) : 1));
+  const average = factors.reduce((sum, factor) => sum + factor, 0) / 7;
+  return average > 0 ? factors.map(factor => factor / average) : factors.map(() => 1);
+}
+
+/**
+ * Expected value of each day from the previous days, or NaN without enough history
+ */
+function expectedSeries(values: number[], dates: string[], factors: number[]): number[] {
+  const deseasonalized = values.map((value, i) => {
+    const factor = factors[weekday(dates[i])];
+    return factor > 0 ? value / factor : value;
+  });
+  return values.map((_, i) => {
+    const history = deseasonalized.slice(Math.max(0, i - BASELINE_DAYS), i).filter(value => !Number.isNaN(value));
+    if (history.length < MIN_HISTORY_DAYS) return NaN;
+    return median(history) * factors[weekday(dates[i])];
+  });
+}
+
+/**
+ * Flag the days of one metric whose residual exceeds the threshold
+ */
+function scoreMetric(
+  metric: AnomalyMetric,
+  series: Map<string, DayTotals>,
+  dates: string[],
+  firstScored: string,
+  threshold: number
+): { anomalies: Anomaly[]; scored: number } {
+  const values = dates.map(date => metricValue(series.get(date), metric));
+  const expected = expectedSeries(values, dates, weekdayFactors(values, dates));
+
+  const scoredDays = dates
+    .map((date, i) => ({ date, value: values[i], expected: expected[i] }))
+    .filter(day => day.date >= firstScored && !Number.isNaN(day.value) && !Number.isNaN(day.expected));
+  const residuals = scoredDays.map(day => day.value - day.expected);
+  const mad = median(residuals.map(residual => Math.abs(residual - median(residuals))));
+
+  const anomalies: Anomaly[] = [];
+  for (const day of scoredDays) {
+    // Counts vary at least like a Poisson variable
+    const floor = metric === 'clicks' || metric === 'impressions'
+      ? Math.sqrt(Math.max(day.expected, 1))
+      : MIN_SCALE[metric];
+    const scale = Math.max(MAD_SCALE * (mad || 0), floor);
+    const change = day.value - day.expected;
+    const zScore = change / scale;
+    if (Math.abs(zScore) < threshold) continue;
+
+    const direction = change < 0 ? 'drop' : 'spike';
+    anomalies.push({
+      date: day.date,
+      metric,
+      value: round(metric, day.value),
+      expected: round(metric, day.expected),
+      change: round(metric, change),
+      changePercent: day.expected !== 0 ? Number(((change / day.expected) * 100).toFixed(1)) : null,
+      zScore: Number(zScore.toFixed(2)),
+      direction,
+      impact: (metric === 'position') === (direction === 'spike') ? 'negative' : 'positive',
+    });
+  }
+  return { anomalies, scored: scoredDays.length };
+}
+
+function round(metric: AnomalyMetric, value: number): number {
+  if (metric === 'ctr') return Number(value.toFixed(4));
+  if (metric === 'position') return Number(value.toFixed(2));
+  return Math.round(value);
+}
+
+/**
+ * Segments that moved most in the direction of an anomaly
+ */
+function attribute(
+  anomaly: Anomaly,
+  segments: Map<string, Map<string, DayTotals>>,
+  dayImpressions: number
+): AnomalyContributor[] {
+  const previousWeeks = [7, 14, 21, 28].map(days => addDays(anomaly.date, -days));
+
+  const contributors = [...segments].map(([segment, days]) => {
+    const value = metricValue(days.get(anomaly.date), anomaly.metric);
+    const history = previousWeeks
+      .map(date => metricValue(days.get(date), anomaly.metric))
+      .filter(past => !Number.isNaN(past));
+    const baseline = history.length > 0 ? median(history) : NaN;
+    if (Number.isNaN(value) || Number.isNaN(baseline)) {
+      return { segment, value, baseline, contribution: 0 };
+    }
+
+    let contribution = value - baseline;
+    if (anomaly.metric === 'ctr' || anomaly.metric === 'position') {
+      contribution *= dayImpressions > 0 ? (days.get(anomaly.date)?.impressions || 0) / dayImpressions : 0;
+    }
+    return { segment, value, baseline, contribution };
+  });
+
+  const sameDirection = contributors
+    .filter(c => Math.sign(c.contribution) === Math.sign(anomaly.change) && c.contribution !== 0)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const total = sameDirection.reduce((sum, c) => sum + c.contribution, 0);
+
+  return sameDirection.slice(0, TOP_CONTRIBUTORS).map(c => ({
+    segment: c.segment,
+    value: round(anomaly.metric, c.value),
+    baseline: round(anomaly.metric, c.baseline),
+    contribution: anomaly.metric === 'ctr' ? Number(c.contribution.toFixed(5)) : round(anomaly.metric, c.contribution),
+    share: total !== 0 ? Number(((c.contribution / total) * 100).toFixed(1)) : 0,
+  }));
+}
+
+/**
+ * Find drops and spikes in a site's daily metrics, with the baseline fitted
+ * on the 28 days before the range
+ */
+export async function detectAnomalies(
+  service: SearchConsoleService,
+  siteUrl: string,
+  options: AnomalyOptions
+): Promise<AnomalyReport> {
+  const { earliest } = availableDateWindow();
+  const wanted = addDays(options.startDate, -BASELINE_DAYS);
+  const fetchStart = wanted > earliest ? wanted : earliest;
+  const dates = listDays(fetchStart, options.endDate);
+
+  const totals = await service.searchAnalytics(siteUrl, {
+    startDate: fetchStart,
+    endDate: options.endDate,
+    dimensions: ['date'],
+    dimensionFilterGroups: options.dimensionFilterGroups,
+    dataState: 'all',
+  }, {});
+  const series = new Map<string, DayTotals>();
+  for (const row of totals.data.rows || []) {
+    if (row.keys?.[0]) addRow(series, row.keys[0], row);
+  }
+
+  const anomalies: Anomaly[] = [];
+  let daysScored = 0;
+  for (const metric of options.metrics) {
+    const result = scoreMetric(metric, series, dates, options.startDate, options.threshold);
+    anomalies.push(...result.anomalies);
+    daysScored = Math.max(daysScored, result.scored);
+  }
+
+  // Segment rows are only needed to explain anomalies
+  if (options.segmentDimension && anomalies.length > 0) {
+    const rows = await service.searchAnalytics(siteUrl, {
+      startDate: fetchStart,
+      endDate: options.endDate,
+      dimensions: ['date', options.segmentDimension],
+      dimensionFilterGroups: options.dimensionFilterGroups,
+      dataState: 'all',
+    }, { maxRows: options.maxSegmentRows });
+
+    const segments = new Map<string, Map<string, DayTotals>>();
+    for (const row of rows.data.rows || []) {
+      const [date, segment] = row.keys || [];
+      if (!date || segment === undefined) continue;
+      const days = segments.get(segment) || new Map<string, DayTotals>();
+      addRow(days, date, row);
+      segments.set(segment, days);
+    }
+
+    for (const anomaly of anomalies) {
+      anomaly.contributors = attribute(anomaly, segments, series.get(anomaly.date)?.impressions || 0);
+    }
+  }
+
+  anomalies.sort((a, b) => b.date.localeCompare(a.date) || Math.abs(b.zScore) - Math.abs(a.zScore));
+  return {
+    analyzedRange: { start: options.startDate, end: options.endDate },
+    baselineRange: { start: fetchStart, end: addDays(options.startDate, -1) },
+    daysScored,
+    anomalies,
+  };
+}
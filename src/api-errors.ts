@@ -0,0 +1,130 @@
+/**
+ * Typed Google API errors
+ *
+ * googleapis rejects with GaxiosErrors whose useful information is spread
+ * over the HTTP status, the error reason and the message. classifyApiError
+ * turns them into a GscApiError with a stable kind and a remediation hint,
+ * which the tool handler reports as an MCP error.
+ */
+
+import { QuotaExhaustedError } from './quota.js';
+
+export type GscErrorKind =
+  | 'quota_exceeded'
+  | 'rate_limited'
+  | 'property_not_verified'
+  | 'permission_denied'
+  | 'insufficient_scope'
+  | 'api_not_enabled'
+  | 'token_revoked'
+  | 'invalid_argument'
+  | 'not_found'
+  | 'unavailable';
+
+const HINTS: Record<GscErrorKind, string> = {
+  quota_exceeded:
+    'The daily quota is used up and resets at midnight Pacific time. Check get_quota_usage, or use another account with access to the property.',
+  rate_limited: 'Too many requests in a short time. Wait a minute and try again.',
+  property_not_verified:
+    'The account is not a verified owner of this property. Verify it in Search Console, or use an account that owns it (see find_site_owner).',
+  permission_denied:
+    'The account has no access to this property. Check list_sites or find_site_owner; URL-prefix and sc-domain properties are distinct.',
+  insufficient_scope:
+    'The token lacks the required OAuth scopes. Re-authorize the account with start_account_authorization (or the "accounts authorize" CLI command).',
+  api_not_enabled:
+    'Enable the API (Search Console API or Web Search Indexing API) in the Google Cloud project of the OAuth client or service account.',
+  token_revoked:
+    'The refresh token is expired or revoked. Re-authorize the account with start_account_authorization (or the "accounts authorize" CLI command).',
+  invalid_argument: 'Check the request parameters.',
+  not_found: 'Check the site URL, page URL or sitemap path.',
+  unavailable: 'The Google API is temporarily unavailable. Try again later.',
+};
+
+export class GscApiError extends Error {
+  readonly hint: string;
+
+  constructor(
+    readonly kind: GscErrorKind,
+    message: string,
+    readonly status?: number,
+    readonly reason?: string
+  ) {
+    super(message);
+    this.name = 'GscApiError';
+    this.hint = HINTS[kind];
+  }
+}
+
+interface GoogleErrorBody {
+  error?:
+    | string
+    | {
+        code?: number;
+        message?: string;
+        status?: string;
+        errors?: { reason?: string; message?: string }[];
+        details?: { reason?: string }[];
+      };
+  error_description?: string;
+}
+
+/**
+ * Status, reason and message of a googleapis / gaxios error
+ */
+export function describeApiError(err: unknown): { status?: number; reason?: string; message: string; retryAfter?: string } {
+  const e = err as {
+    code?: unknown;
+    message?: string;
+    response?: { status?: number; headers?: Record<string, string>; data?: GoogleErrorBody };
+  };
+  const body = e?.response?.data;
+  const status = e?.response?.status ?? (typeof e?.code === 'number' ? e.code : undefined);
+
+  // OAuth token endpoint errors: { error: 'invalid_grant', error_description }
+  if (typeof body?.error === 'string') {
+    return {
+      status,
+      reason: body.error,
+      message: body.error_description || body.error,
+    };
+  }
+
+  const error = body?.error;
+  return {
+    status,
+    reason: error?.errors?.[0]?.reason || error?.details?.find(d => d.reason)?.reason || error?.status,
+    message: error?.message || e?.message || String(err),
+    retryAfter: e?.response?.headers?.['retry-after'],
+  };
+}
+
+/**
+ * Map an error to a GscApiError, or undefined if it doesn't come from a Google API
+ */
+export function classifyApiError(err: unknown): GscApiError | undefined {
+  if (err instanceof GscApiError) return err;
+  if (err instanceof QuotaExhaustedError) {
+    return new GscApiError('quota_exceeded', err.message, undefined, 'localQuota');
+  }
+
+  const { status, reason, message } = describeApiError(err);
+  if (status === undefined && reason === undefined) return undefined;
+
+  const text = `${reason || ''} ${message}`.toLowerCase();
+  const kind = ((): GscErrorKind | undefined => {
+    if (reason === 'invalid_grant' || status === 401) return 'token_revoked';
+    if (/per minute|ratelimitexceeded/.test(text)) return 'rate_limited';
+    if (/dailylimitexceeded|quotaexceeded|quota exceeded/.test(text)) return 'quota_exceeded';
+    if (status === 429 || /resource_exhausted/.test(text)) return 'rate_limited';
+    if (/scope/.test(text) || reason === 'insufficientPermissions' || reason === 'insufficient_scope') return 'insufficient_scope';
+    if (/service_disabled|accessnotconfigured|has not been used|is disabled/.test(text)) return 'api_not_enabled';
+    if (/verif|ownership/.test(text)) return 'property_not_verified';
+    if (status === 403) return 'permission_denied';
+    if (status === 400) return 'invalid_argument';
+    if (status === 404) return 'not_found';
+    if (status !== undefined && status >= 500) return 'unavailable';
+    return undefined;
+  })();
+
+  return kind ? new GscApiError(kind, message, status, reason) : undefined;
+}
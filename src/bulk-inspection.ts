@@ -0,0 +1,167 @@
+/**
+ * Bulk URL inspection
+ *
+ * Runs URL Inspection over many URLs with bounded concurrency and summarizes
+ * the results by verdict, coverage state, canonical mismatch, robots.txt and
+ * indexing state and mobile usability. The daily inspection quota (2,000 per
+ * property) is checked up front: URLs beyond the remaining budget are
+ * skipped rather than failed one by one.
+ */
+
+import type { searchconsole_v1 } from 'googleapis';
+import { mapWithConcurrency } from './concurrency.js';
+import { GscApiError } from './api-errors.js';
+import { SearchConsoleService } from './search-console.js';
+
+// URLs listed per canonical mismatch or error group in the summary
+const SAMPLE_URLS = 20;
+
+export interface InspectionRecord {
+  [key: string]: string | boolean | null;
+  url: string;
+  verdict: string | null;
+  coverageState: string | null;
+  indexingState: string | null;
+  robotsTxtState: string | null;
+  pageFetchState: string | null;
+  lastCrawlTime: string | null;
+  crawledAs: string | null;
+  googleCanonical: string | null;
+  userCanonical: string | null;
+  canonicalMismatch: boolean;
+  mobileUsabilityVerdict: string | null;
+  mobileUsabilityIssues: string | null;
+  inspectionResultLink: string | null;
+  error: string | null;
+}
+
+// Column order of exported records
+export const INSPECTION_COLUMNS: string[] = [
+  'url', 'verdict', 'coverageState', 'indexingState', 'robotsTxtState', 'pageFetchState',
+  'lastCrawlTime', 'crawledAs', 'googleCanonical', 'userCanonical', 'canonicalMismatch',
+  'mobileUsabilityVerdict', 'mobileUsabilityIssues', 'inspectionResultLink', 'error',
+];
+
+export interface InspectionSummary {
+  inspected: number;
+  failed: number;
+  skipped: number;
+  byVerdict: Record<string, number>;
+  byCoverageState: Record<string, number>;
+  byIndexingState: Record<string, number>;
+  byRobotsTxtState: Record<string, number>;
+  byMobileUsability: Record<string, number>;
+  canonicalMismatches: { count: number; urls: { url: string; userCanonical: string; googleCanonical: string }[] };
+  errors: { error: string; count: number; urls: string[] }[];
+}
+
+export interface BulkInspectionResult {
+  summary: InspectionSummary;
+  records: InspectionRecord[];
+  // URLs not inspected because the daily quota ran out
+  skippedUrls: string[];
+}
+
+/**
+ * Flatten an inspection result into one record
+ */
+function toRecord(url: string, result?: searchconsole_v1.Schema$UrlInspectionResult): InspectionRecord {
+  const index = result?.indexStatusResult;
+  const mobile = result?.mobileUsabilityResult;
+  const googleCanonical = index?.googleCanonical || null;
+  const userCanonical = index?.userCanonical || null;
+
+  return {
+    url,
+    verdict: index?.verdict || null,
+    coverageState: index?.coverageState || null,
+    indexingState: index?.indexingState || null,
+    robotsTxtState: index?.robotsTxtState || null,
+    pageFetchState: index?.pageFetchState || null,
+    lastCrawlTime: index?.lastCrawlTime || null,
+    crawledAs: index?.crawledAs || null,
+    googleCanonical,
+    userCanonical,
+    canonicalMismatch: Boolean(googleCanonical && userCanonical && googleCanonical !== userCanonical),
+    mobileUsabilityVerdict: mobile?.verdict || null,
+    mobileUsabilityIssues: mobile?.issues?.map(issue => issue.issueType).filter(Boolean).join(';') || null,
+    inspectionResultLink: result?.inspectionResultLink || null,
+    error: null,
+  };
+}
+
+function countBy(records: InspectionRecord[], field: keyof InspectionRecord): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const record of records) {
+    const value = String(record[field] ?? 'UNKNOWN');
+    counts[value] = (counts[value] || 0) + 1;
+  }
+  return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+}
+
+function summarizeInspections(records: InspectionRecord[], skipped: number): InspectionSummary {
+  const inspected = records.filter(record => !record.error);
+  const failed = records.filter(record => record.error);
+  const mismatches = inspected.filter(record => record.canonicalMismatch);
+
+  const errors = new Map<string, string[]>();
+  for (const record of failed) {
+    errors.set(record.error!, [...(errors.get(record.error!) || []), record.url]);
+  }
+
+  return {
+    inspected: inspected.length,
+    failed: failed.length,
+    skipped,
+    byVerdict: countBy(inspected, 'verdict'),
+    byCoverageState: countBy(inspected, 'coverageState'),
+    byIndexingState: countBy(inspected, 'indexingState'),
+    byRobotsTxtState: countBy(inspected, 'robotsTxtState'),
+    byMobileUsability: countBy(inspected, 'mobileUsabilityVerdict'),
+    canonicalMismatches: {
+      count: mismatches.length,
+      urls: mismatches.slice(0, SAMPLE_URLS).map(record => ({
+        url: record.url,
+        userCanonical: record.userCanonical!,
+        googleCanonical: record.googleCanonical!,
+      })),
+    },
+    errors: [...errors].map(([error, urls]) => ({ error, count: urls.length, urls: urls.slice(0, SAMPLE_URLS) })),
+  };
+}
+
+/**
+ * Inspect URLs of a site, at most `concurrency` at a time
+ */
+export async function bulkInspectUrls(
+  service: SearchConsoleService,
+  siteUrl: string,
+  urls: string[],
+  options: { concurrency: number; languageCode?: string }
+): Promise<BulkInspectionResult> {
+  const unique = [...new Set(urls)];
+  const budget = service.remainingQuota('urlInspection', siteUrl) ?? unique.length;
+  const batch = unique.slice(0, budget);
+  const skippedUrls = unique.slice(budget);
+
+  const records = await mapWithConcurrency(batch, options.concurrency, async url => {
+    try {
+      const response = await service.inspectUrl(siteUrl, url, options.languageCode);
+      return toRecord(url, response.data.inspectionResult);
+    } catch (e) {
+      // The quota can still run out midway when other tools inspect URLs too
+      if (e instanceof GscApiError && e.kind === 'quota_exceeded') {
+        skippedUrls.push(url);
+        return undefined;
+      }
+      return { ...toRecord(url), error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+
+  const inspected = records.filter((record): record is InspectionRecord => record !== undefined);
+  return {
+    summary: summarizeInspections(inspected, skippedUrls.length),
+    records: inspected,
+    skippedUrls,
+  };
+}
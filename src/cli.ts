@@ -0,0 +1,241 @@
+/**
+ * Command-line subcommands
+ *
+ * Running the binary without arguments starts the MCP server on stdio.
+ * Otherwise the first argument selects a command group:
+ *
+ *   accounts generate-key
+ *     Print a new random secret for GSC_ACCOUNTS_KEY
+ *   accounts encrypt [--file <path>] [--key-file <path>]
+ *     Encrypt a plaintext accounts file in place
+ *   accounts rotate-key [--file <path>] [--key-file <path>] (--new-key <secret> | --new-key-file <path>)
+ *     Re-encrypt an accounts file with a new secret
+ *   accounts authorize [--id <id>] [--manual] [--port <port>] [--client-id <id> --client-secret <secret>]
+ *     Run the OAuth consent flow and register the account in GSC_ACCOUNTS_FILE
+ *   history sync --site <url> [--account <id>] [--type <type>] [--start-date <YYYY-MM-DD>] [--max-days <n>]
+ *     Copy missing and not yet final days of a site into GSC_HISTORY_DB
+ *
+ * --file defaults to GSC_ACCOUNTS_FILE and --key-file to GSC_ACCOUNTS_KEY /
+ * GSC_ACCOUNTS_KEY_FILE.
+ */
+
+import { parseArgs } from 'util';
+import * as readline from 'readline/promises';
+import { AccountManager } from './accounts.js';
+import { FileAccountStore } from './account-store.js';
+import { generateAccountsKey, loadAccountsKey, readKeyFile } from './account-crypto.js';
+import { HistoryStore, syncSiteHistory } from './history.js';
+import { SearchConsoleService } from './search-console.js';
+
+const USAGE = `Usage:
+  mcp-gsc-multi-account                     Start the MCP server (stdio)
+  mcp-gsc-multi-account accounts generate-key
+  mcp-gsc-multi-account accounts encrypt [--file <path>] [--key-file <path>]
+  mcp-gsc-multi-account accounts rotate-key [--file <path>] [--key-file <path>] (--new-key <secret> | --new-key-file <path>)
+  mcp-gsc-multi-account accounts authorize [--id <id>] [--manual] [--port <port>] [--client-id <id> --client-secret <secret>]
+  mcp-gsc-multi-account history sync --site <url> [--account <id>] [--type <type>] [--start-date <YYYY-MM-DD>] [--max-days <n>]`;
+
+type CommandHandler = (args: string[]) => Promise<void>;
+
+const accountsCommands: Record<string, CommandHandler> = {
+  'generate-key': async () => {
+    console.log(generateAccountsKey());
+  },
+
+  encrypt: async (args) => {
+    const { values } = parseArgs({
+      args,
+      options: {
+        file: { type: 'string' },
+        'key-file': { type: 'string' },
+      },
+    });
+
+    const store = new FileAccountStore(resolveAccountsFile(values.file));
+    if (store.isEncrypted()) {
+      throw new Error('Accounts file is already encrypted. Use "accounts rotate-key" to change the key');
+    }
+
+    const secret = resolveKey(values['key-file']);
+    const count = await store.rekey(secret);
+    console.log(`Encrypted ${count} account(s)`);
+  },
+
+  'rotate-key': async (args) => {
+    const { values } = parseArgs({
+      args,
+      options: {
+        file: { type: 'string' },
+        'key-file': { type: 'string' },
+        'new-key': { type: 'string' },
+        'new-key-file': { type: 'string' },
+      },
+    });
+
+    const newSecret = values['new-key-file']
+      ? readKeyFile(values['new-key-file'])
+      : values['new-key'];
+    if (!newSecret) {
+      throw new Error('--new-key or --new-key-file is required');
+    }
+
+    const store = new FileAccountStore(resolveAccountsFile(values.file), resolveKey(values['key-file']));
+    const count = await store.rekey(newSecret);
+    console.log(`Re-encrypted ${count} account(s) with the new key. Update GSC_ACCOUNTS_KEY / GSC_ACCOUNTS_KEY_FILE accordingly.`);
+  },
+
+  authorize: async (args) => {
+    const { values } = parseArgs({
+      args,
+      options: {
+        id: { type: 'string' },
+        manual: { type: 'boolean', default: false },
+        port: { type: 'string' },
+        'client-id': { type: 'string' },
+        'client-secret': { type: 'string' },
+      },
+    });
+
+    const manager = AccountManager.fromEnvironment();
+    const flow = manager.createAuthorizationFlow();
+    const started = await flow.start({
+      accountId: values.id,
+      mode: values.manual ? 'manual' : 'loopback',
+      port: values.port ? Number(values.port) : undefined,
+      clientId: values['client-id'],
+      clientSecret: values['client-secret'],
+    });
+
+    console.error(`Open this URL in your browser and grant access:\n\n${started.authUrl}\n`);
+
+    let code: string | undefined;
+    if (values.manual) {
+      const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+      code = await rl.question('Paste the code or the full redirect URL: ');
+      rl.close();
+    } else {
+      console.error('Waiting for the browser redirect...');
+    }
+
+    const authorized = await flow.complete(started.authorizationId, { code, waitSeconds: 600 });
+    const id = authorized.accountId || authorized.email;
+    await manager.registerAccount({
+      id,
+      email: authorized.email,
+      refreshToken: authorized.refreshToken,
+      accessToken: authorized.accessToken,
+      clientId: authorized.clientId,
+      clientSecret: authorized.clientSecret,
+    });
+
+    if (manager.persistent) {
+      console.error(`Account ${id} (${authorized.email}) saved to ${process.env.GSC_ACCOUNTS_FILE}`);
+    } else {
+      // No writable accounts file: print the entry so it can be added by hand
+      console.error('GSC_ACCOUNTS_FILE is not set (or read-only). Add this entry to your accounts config:');
+      console.log(JSON.stringify({
+        id,
+        email: authorized.email,
+        refreshToken: authorized.refreshToken,
+        clientId: authorized.clientId,
+        clientSecret: authorized.clientSecret,
+      }, null, 2));
+    }
+  },
+};
+
+const historyCommands: Record<string, CommandHandler> = {
+  sync: async (args) => {
+    const { values } = parseArgs({
+      args,
+      options: {
+        site: { type: 'string' },
+        account: { type: 'string' },
+        type: { type: 'string', default: 'web' },
+        'start-date': { type: 'string' },
+        'max-days': { type: 'string' },
+      },
+    });
+    if (!values.site) {
+      throw new Error('--site is required');
+    }
+
+    const manager = AccountManager.fromEnvironment();
+    const accountId = await manager.resolveAccountForSite(values.account, values.site);
+    const { client, account } = await manager.getAuthClient(accountId);
+    const store = HistoryStore.fromEnvironment();
+
+    try {
+      console.error(`Syncing ${values.site} with ${account.email} into ${store.file}...`);
+      const service = new SearchConsoleService(client, {
+        accountId: account.id,
+        quota: manager.quota,
+        projectId: manager.quotaProject(account.id),
+      });
+      const result = await syncSiteHistory(service, store, values.site, {
+        accountId: account.id,
+        searchType: values.type,
+        startDate: values['start-date'],
+        maxDays: values['max-days'] ? Number(values['max-days']) : undefined,
+      });
+      console.log(JSON.stringify(result, null, 2));
+      if (result.errors.length > 0) {
+        throw new Error(`${result.errors.length} day(s) failed, run the command again to retry them`);
+      }
+    } finally {
+      store.close();
+    }
+  },
+};
+
+const commandGroups: Record<string, Record<string, CommandHandler>> = {
+  accounts: accountsCommands,
+  history: historyCommands,
+};
+
+function resolveAccountsFile(file?: string): string {
+  const resolved = file || process.env.GSC_ACCOUNTS_FILE;
+  if (!resolved) {
+    throw new Error('--file or GSC_ACCOUNTS_FILE is required');
+  }
+  return resolved;
+}
+
+function resolveKey(keyFile?: string): string {
+  const secret = keyFile ? readKeyFile(keyFile) : loadAccountsKey();
+  if (!secret) {
+    throw new Error('--key-file, GSC_ACCOUNTS_KEY or GSC_ACCOUNTS_KEY_FILE is required');
+  }
+  return secret;
+}
+
+/**
+ * Whether the arguments name a CLI command rather than starting the server
+ */
+export function isCliCommand(argv: string[]): boolean {
+  return argv.length > 0 && (Object.hasOwn(commandGroups, argv[0]) || argv[0] === 'help' || argv[0] === '--help');
+}
+
+/**
+ * Run a CLI command and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [group, command, ...rest] = argv;
+  // Own keys only, so prototype names like "constructor" aren't taken for commands
+  const handler = Object.hasOwn(commandGroups, group) && Object.hasOwn(commandGroups[group], command)
+    ? commandGroups[group][command]
+    : undefined;
+
+  if (!handler) {
+    console.error(USAGE);
+    return group === 'help' || group === '--help' ? 0 : 1;
+  }
+
+  try {
+    await handler(rest);
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
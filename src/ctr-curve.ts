@@ -0,0 +1,170 @@
+/**
+ * Site-specific CTR-by-position curves
+ *
+ * Quick wins estimate the clicks a query would earn at a better position.
+ * Generic CTR tables misjudge sites with heavy SERP features or a lot of
+ * branded traffic, so the curve is fitted on the site's own non-branded
+ * queries, per device and search type: impressions-weighted CTR for each
+ * rounded position from 1 to 20, shrunk towards the default curve where a
+ * position has few impressions, then made non-increasing.
+ *
+ * Configuration:
+ * - GSC_CTR_CURVE: default curve as a JSON array of CTR percentages for
+ *   positions 1, 2, 3... (missing positions keep the built-in values)
+ */
+
+import type { webmasters_v3 } from 'googleapis';
+import { isBranded } from './query-segments.js';
+
+type SearchAnalyticsRow = webmasters_v3.Schema$ApiDataRow;
+
+// Positions covered by a curve; deeper positions use the last one
+export const CURVE_POSITIONS = 20;
+// Built-in default CTR (percent) for positions 1-20
+const BUILTIN_CTR_CURVE = [
+  28.5, 15.7, 11.0, 8.0, 7.2, 5.1, 4.0, 3.2, 2.8, 2.5,
+  1.6, 1.4, 1.2, 1.1, 1.0, 0.9, 0.8, 0.7, 0.6, 0.5,
+];
+// Impressions at a position that weigh as much as the default curve
+const PRIOR_IMPRESSIONS = 500;
+// Non-branded impressions in the top 20 needed to fit a site curve at all
+const MIN_FIT_IMPRESSIONS = 1000;
+
+export type CurveDevice = 'ALL' | 'DESKTOP' | 'MOBILE' | 'TABLET';
+
+export interface CtrCurvePoint {
+  position: number;
+  // Fraction, not percent
+  ctr: number;
+  impressions: number;
+  // Weight of the site's own data in this point, from 0 (default curve) to 1
+  confidence: number;
+}
+
+export interface CtrCurve {
+  source: 'site' | 'default';
+  device: CurveDevice;
+  searchType: string;
+  // Non-branded rows and impressions the curve was fitted on
+  rows: number;
+  impressions: number;
+  points: CtrCurvePoint[];
+}
+
+/**
+ * Default curve as fractions: the given percentages, then GSC_CTR_CURVE,
+ * then the built-in values, position by position
+ */
+export function defaultCtrCurve(percentages: number[] = []): number[] {
+  const configured = process.env.GSC_CTR_CURVE;
+  let values: unknown;
+  try {
+    values = configured ? JSON.parse(configured) : [];
+  } catch (e) {
+    throw new Error(`GSC_CTR_CURVE is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!Array.isArray(values) || values.some(v => typeof v !== 'number' || v < 0 || v > 100)) {
+    throw new Error('GSC_CTR_CURVE must be an array of CTR percentages between 0 and 100');
+  }
+
+  return BUILTIN_CTR_CURVE.map((ctr, i) => (percentages[i] ?? (values as number[])[i] ?? ctr) / 100);
+}
+
+/**
+ * Weighted pool-adjacent-violators: the closest non-increasing sequence
+ */
+function nonIncreasing(values: number[], weights: number[]): number[] {
+  const blocks: { value: number; weight: number; size: number }[] = [];
+  values.forEach((value, i) => {
+    blocks.push({ value, weight: weights[i], size: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].value < blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      const weight = previous.weight + last.weight;
+      previous.value = (previous.value * previous.weight + last.value * last.weight) / weight;
+      previous.weight = weight;
+      previous.size += last.size;
+    }
+  });
+  return blocks.flatMap(block => new Array(block.size).fill(block.value));
+}
+
+function curveFrom(
+  rows: SearchAnalyticsRow[],
+  device: CurveDevice,
+  searchType: string,
+  defaults: number[]
+): CtrCurve {
+  const clicks = new Array(CURVE_POSITIONS).fill(0);
+  const impressions = new Array(CURVE_POSITIONS).fill(0);
+  for (const row of rows) {
+    const bucket = Math.round(row.position || 0) - 1;
+    if (bucket < 0 || bucket >= CURVE_POSITIONS) continue;
+    clicks[bucket] += row.clicks || 0;
+    impressions[bucket] += row.impressions || 0;
+  }
+  const total = impressions.reduce((sum, value) => sum + value, 0);
+
+  if (total < MIN_FIT_IMPRESSIONS) {
+    return {
+      source: 'default',
+      device,
+      searchType,
+      rows: rows.length,
+      impressions: total,
+      points: defaults.map((ctr, i) => ({ position: i + 1, ctr, impressions: impressions[i], confidence: 0 })),
+    };
+  }
+
+  // Shrink each position towards the default by its impressions
+  const shrunk = defaults.map((ctr, i) => (clicks[i] + ctr * PRIOR_IMPRESSIONS) / (impressions[i] + PRIOR_IMPRESSIONS));
+  const fitted = nonIncreasing(shrunk, impressions.map(value => value + PRIOR_IMPRESSIONS));
+
+  return {
+    source: 'site',
+    device,
+    searchType,
+    rows: rows.length,
+    impressions: total,
+    points: fitted.map((ctr, i) => ({
+      position: i + 1,
+      ctr: Number(ctr.toFixed(4)),
+      impressions: impressions[i],
+      confidence: Number((impressions[i] / (impressions[i] + PRIOR_IMPRESSIONS)).toFixed(2)),
+    })),
+  };
+}
+
+/**
+ * Fit one curve for all devices and one per device from query/device rows,
+ * leaving branded queries out
+ */
+export function fitCtrCurves(
+  rows: SearchAnalyticsRow[],
+  options: { searchType: string; brandPatterns: RegExp[]; defaultCurve?: number[] }
+): Map<CurveDevice, CtrCurve> {
+  const defaults = options.defaultCurve ?? defaultCtrCurve();
+  const nonBranded = rows.filter(row => !isBranded(row.keys?.[0] || '', options.brandPatterns));
+
+  const curves = new Map<CurveDevice, CtrCurve>();
+  curves.set('ALL', curveFrom(nonBranded, 'ALL', options.searchType, defaults));
+  for (const device of ['DESKTOP', 'MOBILE', 'TABLET'] as const) {
+    const deviceRows = nonBranded.filter(row => row.keys?.[1] === device);
+    curves.set(device, curveFrom(deviceRows, device, options.searchType, defaults));
+  }
+  return curves;
+}
+
+/**
+ * CTR expected at a (fractional) position, interpolated between points
+ */
+export function expectedCtr(curve: CtrCurve, position: number): { ctr: number; confidence: number } {
+  const clamped = Math.min(Math.max(position, 1), CURVE_POSITIONS);
+  const lower = curve.points[Math.floor(clamped) - 1];
+  const upper = curve.points[Math.min(Math.ceil(clamped), CURVE_POSITIONS) - 1];
+  const weight = clamped - Math.floor(clamped);
+  return {
+    ctr: lower.ctr + (upper.ctr - lower.ctr) * weight,
+    confidence: Math.min(lower.confidence, upper.confidence),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * File export of Search Analytics rows and other tool results
+ *
+ * Search Analytics rows are flattened into one column per requested dimension
+ * followed by the metrics; other tools pass flat records. Both are written as
+ * CSV, NDJSON or Parquet to the export directory.
+ *
+ * Configuration:
+ * - GSC_EXPORT_DIR: export directory (default: ~/gsc-exports)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parquetWriteFile } from 'hyparquet-writer';
+import type { webmasters_v3 } from 'googleapis';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+const METRIC_COLUMNS = ['clicks', 'impressions', 'ctr', 'position'] as const;
+// Rows per write when streaming text formats
+const WRITE_CHUNK_ROWS = 10000;
+
+export type ExportValue = string | number | boolean | null;
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportResult {
+  file: string;
+  format: ExportFormat;
+  rowCount: number;
+  columns: string[];
+  bytes: number;
+}
+
+export function exportDirectory(): string {
+  return process.env.GSC_EXPORT_DIR || path.join(os.homedir(), 'gsc-exports');
+}
+
+/**
+ * File name for an export: site, labels (dates, tool...) and a timestamp, safe on every OS
+ */
+export function exportFileName(siteUrl: string, labels: string[], format: ExportFormat): string {
+  const site = siteUrl
+    .replace(/^sc-domain:/, '')
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-zA-Z0-9.-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return [site, ...labels, timestamp].join('_') + `.${format}`;
+}
+
+/**
+ * Flatten keys into columns named after the dimensions
+ */
+export function flattenRows(rows: webmasters_v3.Schema$ApiDataRow[], dimensions: string[] = []): ExportRecord[] {
+  return rows.map(row => {
+    const flat: ExportRecord = {};
+    dimensions.forEach((dimension, index) => {
+      flat[dimension] = row.keys?.[index] ?? '';
+    });
+    for (const metric of METRIC_COLUMNS) {
+      flat[metric] = row[metric] ?? 0;
+    }
+    return flat;
+  });
+}
+
+/**
+ * Write Search Analytics rows to a new file in the export directory
+ */
+export async function exportRows(
+  rows: webmasters_v3.Schema$ApiDataRow[],
+  dimensions: string[] = [],
+  format: ExportFormat,
+  fileName: string
+): Promise<ExportResult> {
+  return exportRecords(flattenRows(rows, dimensions), [...dimensions, ...METRIC_COLUMNS], format, fileName);
+}
+
+/**
+ * Write flat records to a new file in the export directory. Parquet column
+ * types are inferred from the first non-null value of each column.
+ */
+export async function exportRecords(
+  records: ExportRecord[],
+  columns: string[],
+  format: ExportFormat,
+  fileName: string
+): Promise<ExportResult> {
+  const directory = exportDirectory();
+  await fs.promises.mkdir(directory, { recursive: true });
+  const file = path.join(directory, fileName);
+
+  if (format === 'parquet') {
+    parquetWriteFile({
+      filename: file,
+      columnData: columns.map(column => {
+        const data = records.map(record => record[column] ?? null);
+        const sample = data.find(value => value !== null);
+        return {
+          name: column,
+          data,
+          type: typeof sample === 'number' ? 'DOUBLE' : typeof sample === 'boolean' ? 'BOOLEAN' : 'STRING',
+        };
+      }),
+    });
+  } else {
+    const handle = await fs.promises.open(file, 'w');
+    try {
+      if (format === 'csv') {
+        await handle.write(`${columns.map(csvField).join(',')}\n`);
+      }
+      for (let i = 0; i < records.length; i += WRITE_CHUNK_ROWS) {
+        const lines = records.slice(i, i + WRITE_CHUNK_ROWS).map(record =>
+          format === 'csv'
+            ? columns.map(column => csvField(record[column] ?? null)).join(',')
+            : JSON.stringify(record)
+        );
+        await handle.write(`${lines.join('\n')}\n`);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  const { size } = await fs.promises.stat(file);
+  return { file, format, rowCount: records.length, columns, bytes: size };
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function csvField(value: ExportValue): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,97 @@
+/**
+ * Exclusive lock files
+ *
+ * Files shared by several server processes (the accounts file, the quota
+ * counters) are updated with a read-modify-write under a `<file>.lock`
+ * created with O_EXCL. A lock older than LOCK_STALE_MS was left behind by a
+ * crashed process and is taken over.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock older than this was left behind by a crashed process
+const LOCK_STALE_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Try to create the lock file once: true when taken, false to wait, or
+ * 'retry' when a stale or just-released lock allows retrying immediately
+ */
+function tryLock(lockPath: string): boolean | 'retry' {
+  try {
+    const fd = fs.openSync(lockPath, 'wx');
+    fs.writeSync(fd, String(process.pid));
+    fs.closeSync(fd);
+    return true;
+  } catch (e: any) {
+    if (e.code !== 'EEXIST') throw e;
+  }
+
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+      fs.rmSync(lockPath, { force: true });
+      return 'retry';
+    }
+  } catch {
+    // Lock was released between open and stat
+    return 'retry';
+  }
+  return false;
+}
+
+/**
+ * Run a function while holding an exclusive lock file next to filePath
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    const locked = tryLock(lockPath);
+    if (locked === true) break;
+    if (locked === 'retry') continue;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${filePath}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Blocking variant of withFileLock, for writes that can't await (exit handlers)
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const waiter = new Int32Array(new SharedArrayBuffer(4));
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    const locked = tryLock(lockPath);
+    if (locked === true) break;
+    if (locked === 'retry') continue;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${filePath}`);
+    }
+    Atomics.wait(waiter, 0, 0, LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
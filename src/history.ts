@@ -0,0 +1,333 @@
+/**
+ * Local Search Analytics history
+ *
+ * GSC only keeps 16 months of performance data. syncSiteHistory copies daily
+ * query/page/country/device rows into a local SQLite database so reports can
+ * reach further back, and HistoryStore.query aggregates them the way
+ * search_analytics does. Since every row has a query, anonymized queries are
+ * left out: totals are lower than the property totals search_analytics
+ * reports for the same days. The discover and googleNews search types can't
+ * be synced, as they have no query dimension.
+ *
+ * Every synced day is recorded with its data state: days fetched before GSC
+ * finalized them are fetched again on the next sync, finalized days never
+ * are. Days missing within the sync window are backfilled, oldest first since
+ * those are the next to fall out of GSC retention.
+ *
+ * Configuration:
+ * - GSC_HISTORY_DB: database path (default: ~/.local/share/mcp-gsc-multi-account/history.db)
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listDays, SearchConsoleService } from './search-console.js';
+import { availableDateWindow } from './schemas.js';
+
+// Dimensions stored per row, besides the date
+const SYNC_DIMENSIONS = ['query', 'page', 'country', 'device'] as const;
+const HISTORY_DIMENSIONS = ['date', ...SYNC_DIMENSIONS] as const;
+export type HistoryDimension = (typeof HISTORY_DIMENSIONS)[number];
+// Search types that can be fetched by query
+const SYNC_SEARCH_TYPES = ['web', 'image', 'video', 'news'];
+
+export interface HistoryFilter {
+  dimension: string;
+  operator?: string | null;
+  expression?: string | null;
+}
+
+export interface HistoryQuery {
+  startDate: string;
+  endDate: string;
+  searchType?: string;
+  dimensions?: string[];
+  filters?: HistoryFilter[];
+  rowLimit?: number;
+  startRow?: number;
+}
+
+export interface HistoryCoverage {
+  // Days in the range present in the database
+  syncedDays: number;
+  // Of those, days stored after GSC finalized them
+  finalDays: number;
+  // Date ranges with no stored data
+  missing: { start: string; end: string }[];
+}
+
+export interface SyncOptions {
+  accountId: string;
+  searchType?: string;
+  // Oldest day to backfill (default: start of the GSC retention window)
+  startDate?: string;
+  // Maximum days to fetch in this run
+  maxDays?: number;
+  now?: Date;
+}
+
+export interface SyncResult {
+  window: { start: string; end: string };
+  daysSynced: number;
+  rowsSynced: number;
+  finalizedDays: number;
+  // Days still to fetch because of maxDays
+  remainingDays: number;
+  errors: { date: string; error: string }[];
+}
+
+export class HistoryStore {
+  readonly file: string;
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.file = file;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.function('regexp', { deterministic: true }, (pattern, value) =>
+      new RegExp(String(pattern)).test(String(value)) ? 1 : 0
+    );
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rows (
+        site_url TEXT NOT NULL,
+        search_type TEXT NOT NULL,
+        date TEXT NOT NULL,
+        query TEXT NOT NULL,
+        page TEXT NOT NULL,
+        country TEXT NOT NULL,
+        device TEXT NOT NULL,
+        clicks INTEGER NOT NULL,
+        impressions INTEGER NOT NULL,
+        position REAL NOT NULL,
+        PRIMARY KEY (site_url, search_type, date, query, page, country, device)
+      ) WITHOUT ROWID;
+      CREATE TABLE IF NOT EXISTS synced_days (
+        site_url TEXT NOT NULL,
+        search_type TEXT NOT NULL,
+        date TEXT NOT NULL,
+        final INTEGER NOT NULL,
+        row_count INTEGER NOT NULL,
+        account_id TEXT NOT NULL,
+        synced_at TEXT NOT NULL,
+        PRIMARY KEY (site_url, search_type, date)
+      );
+    `);
+  }
+
+  /**
+   * Open the database at GSC_HISTORY_DB
+   */
+  static fromEnvironment(): HistoryStore {
+    return new HistoryStore(
+      process.env.GSC_HISTORY_DB ||
+        path.join(os.homedir(), '.local', 'share', 'mcp-gsc-multi-account', 'history.db')
+    );
+  }
+
+  /**
+   * Synced days of a site, with whether each was final when stored
+   */
+  syncedDays(siteUrl: string, searchType: string): Map<string, boolean> {
+    const rows = this.db
+      .prepare('SELECT date, final FROM synced_days WHERE site_url = ? AND search_type = ?')
+      .all(siteUrl, searchType) as { date: string; final: number }[];
+    return new Map(rows.map(row => [row.date, row.final === 1]));
+  }
+
+  /**
+   * Replace the stored rows of one day
+   */
+  saveDay(
+    siteUrl: string,
+    searchType: string,
+    date: string,
+    rows: { keys?: string[] | null; clicks?: number | null; impressions?: number | null; position?: number | null }[],
+    { final, accountId }: { final: boolean; accountId: string }
+  ): void {
+    const remove = this.db.prepare('DELETE FROM rows WHERE site_url = ? AND search_type = ? AND date = ?');
+    const insert = this.db.prepare(
+      'INSERT OR REPLACE INTO rows VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const markDay = this.db.prepare('INSERT OR REPLACE INTO synced_days VALUES (?, ?, ?, ?, ?, ?, ?)');
+
+    this.db.transaction(() => {
+      remove.run(siteUrl, searchType, date);
+      for (const row of rows) {
+        const [query = '', page = '', country = '', device = ''] = row.keys || [];
+        insert.run(
+          siteUrl, searchType, date, query, page, country, device,
+          row.clicks || 0, row.impressions || 0, row.position || 0
+        );
+      }
+      markDay.run(siteUrl, searchType, date, final ? 1 : 0, rows.length, accountId, new Date().toISOString());
+    })();
+  }
+
+  /**
+   * Aggregate stored rows by the requested dimensions, shaped like a
+   * searchanalytics.query response. CTR is recomputed and position
+   * weighted by impressions.
+   */
+  query(siteUrl: string, query: HistoryQuery) {
+    const dimensions = (query.dimensions || []) as HistoryDimension[];
+    for (const dimension of dimensions) {
+      if (!HISTORY_DIMENSIONS.includes(dimension)) {
+        throw new Error(`Dimension "${dimension}" is not stored in the local history (use ${HISTORY_DIMENSIONS.join(', ')})`);
+      }
+    }
+
+    const where = ['site_url = ?', 'search_type = ?', 'date BETWEEN ? AND ?'];
+    const params: (string | number)[] = [siteUrl, query.searchType || 'web', query.startDate, query.endDate];
+    for (const filter of query.filters || []) {
+      const clause = filterClause(filter);
+      where.push(clause.sql);
+      params.push(clause.param);
+    }
+
+    const columns = dimensions.join(', ');
+    const sql = `
+      SELECT ${columns ? `${columns}, ` : ''}
+        SUM(clicks) AS clicks,
+        SUM(impressions) AS impressions,
+        SUM(position * impressions) / NULLIF(SUM(impressions), 0) AS position
+      FROM rows
+      WHERE ${where.join(' AND ')}
+      ${columns ? `GROUP BY ${columns}` : ''}
+      ORDER BY clicks DESC, impressions DESC
+      LIMIT ? OFFSET ?`;
+
+    const result = this.db
+      .prepare(sql)
+      .all(...params, query.rowLimit ?? 1000, query.startRow ?? 0) as Record<string, string | number | null>[];
+
+    return {
+      rows: result
+        .filter(row => row.impressions !== null)
+        .map(row => {
+          const clicks = Number(row.clicks);
+          const impressions = Number(row.impressions);
+          return {
+            keys: dimensions.length > 0 ? dimensions.map(dimension => String(row[dimension])) : undefined,
+            clicks,
+            impressions,
+            ctr: impressions > 0 ? clicks / impressions : 0,
+            position: Number(row.position || 0),
+          };
+        }),
+    };
+  }
+
+  /**
+   * Which days of a range are stored
+   */
+  coverage(siteUrl: string, searchType: string, startDate: string, endDate: string): HistoryCoverage {
+    const synced = this.syncedDays(siteUrl, searchType);
+    const coverage: HistoryCoverage = { syncedDays: 0, finalDays: 0, missing: [] };
+
+    for (const day of listDays(startDate, endDate)) {
+      const final = synced.get(day);
+      if (final !== undefined) {
+        coverage.syncedDays++;
+        if (final) coverage.finalDays++;
+        continue;
+      }
+      const last = coverage.missing[coverage.missing.length - 1];
+      if (last && listDays(last.end, day).length === 2) {
+        last.end = day;
+      } else {
+        coverage.missing.push({ start: day, end: day });
+      }
+    }
+    return coverage;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Translate a dimension filter into a SQL condition. contains/equals follow
+ * GSC and ignore case; regex operators use JavaScript regular expressions.
+ */
+function filterClause(filter: HistoryFilter): { sql: string; param: string } {
+  const column = filter.dimension as HistoryDimension;
+  if (!HISTORY_DIMENSIONS.includes(column) || column === 'date') {
+    throw new Error(`Cannot filter the local history on "${filter.dimension}"`);
+  }
+  const expression = filter.expression || '';
+
+  switch (filter.operator || 'equals') {
+    case 'equals':
+      return { sql: `lower(${column}) = lower(?)`, param: expression };
+    case 'notEquals':
+      return { sql: `lower(${column}) != lower(?)`, param: expression };
+    case 'contains':
+      return { sql: `instr(lower(${column}), lower(?)) > 0`, param: expression };
+    case 'notContains':
+      return { sql: `instr(lower(${column}), lower(?)) = 0`, param: expression };
+    case 'includingRegex':
+      return { sql: `regexp(?, ${column})`, param: expression };
+    case 'excludingRegex':
+      return { sql: `NOT regexp(?, ${column})`, param: expression };
+    default:
+      throw new Error(`Unsupported filter operator "${filter.operator}"`);
+  }
+}
+
+/**
+ * Fetch the days of a site that are missing or not yet final, oldest first
+ */
+export async function syncSiteHistory(
+  service: SearchConsoleService,
+  store: HistoryStore,
+  siteUrl: string,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const searchType = options.searchType || 'web';
+  if (!SYNC_SEARCH_TYPES.includes(searchType)) {
+    throw new Error(`Search type "${searchType}" can't be synced, it has no query dimension (use ${SYNC_SEARCH_TYPES.join(', ')})`);
+  }
+  const { earliest, latest } = availableDateWindow('all', options.now);
+  const finalLatest = availableDateWindow('final', options.now).latest;
+  const start = options.startDate && options.startDate > earliest ? options.startDate : earliest;
+
+  const synced = store.syncedDays(siteUrl, searchType);
+  const pending = listDays(start, latest).filter(day => synced.get(day) !== true);
+  const batch = pending.slice(0, options.maxDays ?? pending.length);
+
+  const result: SyncResult = {
+    window: { start, end: latest },
+    daysSynced: 0,
+    rowsSynced: 0,
+    finalizedDays: 0,
+    remainingDays: pending.length - batch.length,
+    errors: [],
+  };
+
+  // One day at a time keeps memory flat and leaves quota for other tools
+  for (const day of batch) {
+    const final = day <= finalLatest;
+    try {
+      const response = await service.searchAnalytics(siteUrl, {
+        startDate: day,
+        endDate: day,
+        dimensions: [...SYNC_DIMENSIONS],
+        searchType,
+        dataState: final ? 'final' : 'all',
+      }, {});
+      const rows = response.data.rows || [];
+      store.saveDay(siteUrl, searchType, day, rows, { final, accountId: options.accountId });
+
+      result.daysSynced++;
+      result.rowsSynced += rows.length;
+      if (final) result.finalizedDays++;
+    } catch (e) {
+      result.errors.push({ date: day, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return result;
+}
@@ -8,17 +8,42 @@
  * 
  * Features:
  * - Multi-account management (switch between accounts dynamically)
- * - Search Analytics with up to 25,000 rows
- * - Quick Wins detection (SEO opportunities)
- * - URL Indexing submission
- * - Period comparison
- * - Sitemap management
+ * - Search Analytics with auto-pagination beyond 25,000 rows
+ * - Local on-disk cache of Search Analytics responses
+ * - Local history database beyond the 16-month GSC retention
+ * - Export of Search Analytics rows to CSV, NDJSON or Parquet files
+ * - Per-account quota tracking and client-side rate limiting
+ * - Quick Wins detection (SEO opportunities) with site-specific CTR curves
+ * - Keyword cannibalization detection
+ * - Anomaly detection on daily series, with segment attribution
+ * - Content decay detection
+ * - Branded / non-branded query segmentation and topic clustering
+ * - URL Indexing submission, single or batched, with a submission log
+ * - Bulk URL inspection with a coverage summary
+ * - Period comparison with new/lost rows and winners/losers per metric
+ * - Portfolio overview across all accounts and properties
+ * - Site and sitemap management, sitemap content analysis
  * 
  * Account configuration:
  * - GSC_ACCOUNTS_JSON: JSON string with accounts config
  * - GSC_ACCOUNTS_FILE: Path to JSON file with accounts config
  * - GSC_REFRESH_TOKEN + GSC_EMAIL: Single account via env vars
  * - register_account tool: Add accounts at runtime
+ * - unregister_account tool: Remove accounts at runtime
+ * - start/complete_account_authorization tools: Onboard accounts via OAuth consent
+ *
+ * Runtime changes and refreshed tokens are written back to GSC_ACCOUNTS_FILE
+ * when it is set (disable with GSC_ACCOUNTS_READONLY=true).
+ *
+ * Search Analytics responses are cached in GSC_CACHE_DIR
+ * (default: ~/.cache/mcp-gsc-multi-account, disable with GSC_CACHE=off).
+ * Synced history is stored in GSC_HISTORY_DB
+ * (default: ~/.local/share/mcp-gsc-multi-account/history.db).
+ * Exports are written to GSC_EXPORT_DIR (default: ~/gsc-exports).
+ * Daily quota counters are kept in GSC_QUOTA_FILE
+ * (default: ~/.local/share/mcp-gsc-multi-account/quota.json).
+ * Indexing API submissions are logged in GSC_INDEXING_DB
+ * (default: ~/.local/share/mcp-gsc-multi-account/indexing.db).
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -33,19 +58,68 @@ import { zodToJsonSchema } from 'zod-to-json-schema';
 import { z } from 'zod';
 
 import { AccountManager } from './accounts.js';
+import { isCliCommand, runCli } from './cli.js';
+import { ResponseCache } from './response-cache.js';
+import { HistoryStore, syncSiteHistory } from './history.js';
+import { exportFileName, exportRecords, exportRows } from './export.js';
+import { INSPECTION_COLUMNS, bulkInspectUrls } from './bulk-inspection.js';
+import { SubmissionLog, bulkSubmitUrls } from './indexing-log.js';
+import { analyzeSitemap, crossCheckSitemap, fetchSitemaps } from './sitemap.js';
+import { detectAnomalies } from './anomalies.js';
+import { brandPatterns, compareSegmentations, segmentQueries } from './query-segments.js';
+import { defaultCtrCurve } from './ctr-curve.js';
+import { portfolioOverview } from './portfolio.js';
+import { GscErrorKind, classifyApiError } from './api-errors.js';
+import { BatchPartResult } from './indexing-batch.js';
 import { SearchConsoleService } from './search-console.js';
 import {
   SearchAnalyticsSchema,
   QuickWinsSchema,
+  CannibalizationSchema,
+  DetectAnomaliesSchema,
+  ContentDecaySchema,
+  SetBrandTermsSchema,
+  SegmentQueriesSchema,
   InspectUrlSchema,
+  BulkInspectUrlsSchema,
   SubmitIndexingSchema,
+  BulkSubmitIndexingSchema,
+  IndexingNotificationsSchema,
   ListSitemapsSchema,
   SubmitSitemapSchema,
+  GetSitemapSchema,
+  DeleteSitemapSchema,
+  AnalyzeSitemapSchema,
+  GetSiteSchema,
+  AddSiteSchema,
+  DeleteSiteSchema,
   ComparePeriodsSchema,
+  PortfolioOverviewSchema,
+  FindSiteOwnerSchema,
+  ClearCacheSchema,
+  QuotaUsageSchema,
+  SyncSiteHistorySchema,
+  QueryHistorySchema,
+  buildDimensionFilterGroups,
+  resolveDateRange,
+  shiftDateRange,
+  gscToday,
 } from './schemas.js';
 
+// CLI subcommands run and exit without starting the server
+const cliArgs = process.argv.slice(2);
+if (isCliCommand(cliArgs)) {
+  process.exit(await runCli(cliArgs));
+}
+
 // Initialize account manager from environment
 const accountManager = AccountManager.fromEnvironment();
+const authorizationFlow = accountManager.createAuthorizationFlow();
+const responseCache = ResponseCache.fromEnvironment();
+// Opened on first use of the history tools
+let historyStore: HistoryStore | undefined;
+// Opened on first use of the indexing tools
+let submissionLog: SubmissionLog | undefined;
 
 // Create MCP Server
 const server = new Server(
@@ -60,19 +134,108 @@ const server = new Server(
   }
 );
 
-// Helper to get service for an account
-async function getService(accountIdOrEmail?: string): Promise<{ service: SearchConsoleService; email: string }> {
-  const { client, account } = await accountManager.getAuthClient(accountIdOrEmail);
-  const service = new SearchConsoleService(client);
-  return { service, email: account.email };
+// MCP error codes of Google API errors: caller mistakes are invalid params,
+// access and quota problems invalid requests
+const API_ERROR_CODES: Record<GscErrorKind, ErrorCode> = {
+  invalid_argument: ErrorCode.InvalidParams,
+  not_found: ErrorCode.InvalidParams,
+  quota_exceeded: ErrorCode.InvalidRequest,
+  rate_limited: ErrorCode.InvalidRequest,
+  property_not_verified: ErrorCode.InvalidRequest,
+  permission_denied: ErrorCode.InvalidRequest,
+  insufficient_scope: ErrorCode.InvalidRequest,
+  api_not_enabled: ErrorCode.InvalidRequest,
+  token_revoked: ErrorCode.InvalidRequest,
+  unavailable: ErrorCode.InternalError,
+};
+
+// Helper to get service for an account, routed by siteUrl when no account is given
+async function getService(
+  accountIdOrEmail?: string,
+  siteUrl?: string,
+  { bypassCache = false, cache = true }: { bypassCache?: boolean; cache?: boolean } = {}
+): Promise<{ service: SearchConsoleService; email: string; accountId: string }> {
+  const accountId = await accountManager.resolveAccountForSite(accountIdOrEmail, siteUrl);
+  const { client, account } = await accountManager.getAuthClient(accountId);
+  const service = new SearchConsoleService(client, {
+    accountId: account.id,
+    cache: cache ? responseCache : undefined,
+    bypassCache,
+    quota: accountManager.quota,
+    projectId: accountManager.quotaProject(account.id),
+  });
+  return { service, email: account.email, accountId: account.id };
+}
+
+function getHistoryStore(): HistoryStore {
+  historyStore ??= HistoryStore.fromEnvironment();
+  return historyStore;
+}
+
+function getSubmissionLog(): SubmissionLog {
+  submissionLog ??= SubmissionLog.fromEnvironment();
+  return submissionLog;
+}
+
+/**
+ * Record notifications in the submission log, returning the error instead of
+ * throwing it: a publish Google accepted must not be reported as failed
+ */
+function recordSubmissions(accountId: string, results: BatchPartResult[]): string | undefined {
+  try {
+    getSubmissionLog().record(accountId, results);
+    return undefined;
+  } catch (e) {
+    console.error('Failed to record indexing submissions:', e);
+    return e instanceof Error ? e.message : String(e);
+  }
 }
 
 // Register Account Schema
-const RegisterAccountSchema = z.object({
-  id: z.string().describe('Unique identifier for this account'),
-  email: z.string().email().describe('Google account email'),
-  refreshToken: z.string().describe('OAuth2 refresh token'),
-  accessToken: z.string().optional().describe('Optional current access token'),
+const RegisterAccountSchema = z
+  .object({
+    id: z.string().describe('Unique identifier for this account'),
+    email: z.string().email().describe('Google account email (the client_email for service accounts)'),
+    refreshToken: z.string().optional().describe('OAuth2 refresh token (for user accounts)'),
+    accessToken: z.string().optional().describe('Optional current access token'),
+    clientId: z.string().optional().describe('OAuth client ID that minted the refresh token (defaults to GOOGLE_CLIENT_ID)'),
+    clientSecret: z.string().optional().describe('OAuth client secret matching clientId'),
+    serviceAccountKeyFile: z.string().optional().describe('Path to a service-account JSON key file'),
+    serviceAccountKey: z.string().optional().describe('Inline service-account JSON key'),
+    subject: z.string().optional().describe('User to impersonate with the service account (domain-wide delegation)'),
+  })
+  .refine(
+    (val) => Boolean(val.refreshToken) !== Boolean(val.serviceAccountKeyFile || val.serviceAccountKey),
+    { message: 'Provide either refreshToken or serviceAccountKeyFile/serviceAccountKey' }
+  )
+  .refine((val) => Boolean(val.clientId) === Boolean(val.clientSecret), {
+    message: 'clientId and clientSecret must be provided together',
+  });
+
+// Unregister Account Schema
+const UnregisterAccountSchema = z.object({
+  account: z.string().describe('Account ID or email to remove'),
+});
+
+// Start Account Authorization Schema
+const StartAuthorizationSchema = z.object({
+  accountId: z.string().optional().describe('Identifier for the new account (defaults to its email)'),
+  mode: z
+    .enum(['loopback', 'manual'])
+    .default('loopback')
+    .describe('"loopback" listens for the browser redirect on 127.0.0.1, "manual" expects the code or redirect URL to be pasted'),
+  port: z.number().min(0).max(65535).optional().describe('Loopback listener port (random if not specified)'),
+  clientId: z.string().optional().describe('OAuth client ID to use instead of GOOGLE_CLIENT_ID'),
+  clientSecret: z.string().optional().describe('OAuth client secret to use instead of GOOGLE_CLIENT_SECRET'),
+}).refine((val) => Boolean(val.clientId) === Boolean(val.clientSecret), {
+  message: 'clientId and clientSecret must be provided together',
+});
+
+// Complete Account Authorization Schema
+const CompleteAuthorizationSchema = z.object({
+  authorizationId: z.string().describe('Authorization ID returned by start_account_authorization'),
+  code: z.string().optional().describe('Authorization code or full redirect URL (required in manual mode)'),
+  waitSeconds: z.number().min(1).max(600).default(120).describe('How long to wait for the loopback redirect'),
 });
 
 // List Tools Handler
@@ -81,9 +244,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: 'register_account',
-        description: 'Register a new Google Search Console account for use. Accounts can also be configured via GSC_ACCOUNTS_JSON or GSC_ACCOUNTS_FILE environment variables.',
+        description: 'Register a new Google Search Console account for use, either a user OAuth refresh token or a service-account key. Accounts can also be configured via GSC_ACCOUNTS_JSON or GSC_ACCOUNTS_FILE environment variables.',
         inputSchema: zodToJsonSchema(RegisterAccountSchema),
       },
+      {
+        name: 'unregister_account',
+        description: 'Remove a registered Google Search Console account. If GSC_ACCOUNTS_FILE is set, the account is also removed from the file.',
+        inputSchema: zodToJsonSchema(UnregisterAccountSchema),
+      },
+      {
+        name: 'start_account_authorization',
+        description: 'Start the Google OAuth consent flow to add an account. Returns a URL for the user to open; then call complete_account_authorization.',
+        inputSchema: zodToJsonSchema(StartAuthorizationSchema),
+      },
+      {
+        name: 'complete_account_authorization',
+        description: 'Finish an OAuth consent flow started with start_account_authorization, exchange the code and register the account',
+        inputSchema: zodToJsonSchema(CompleteAuthorizationSchema),
+      },
       {
         name: 'list_accounts',
         description: 'List all registered Google Search Console accounts',
@@ -96,31 +274,116 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           account: z.string().optional().describe('Account ID or email (uses first account if not specified)'),
         })),
       },
+      {
+        name: 'find_site_owner',
+        description: 'Find which account should be used for a site. Tools that take a siteUrl pick this account automatically when no account is given.',
+        inputSchema: zodToJsonSchema(FindSiteOwnerSchema),
+      },
+      {
+        name: 'get_site',
+        description: 'Get a site and the permission level of the account on it',
+        inputSchema: zodToJsonSchema(GetSiteSchema),
+      },
+      {
+        name: 'add_site',
+        description: 'Add a property to an account in Google Search Console (ownership must then be verified)',
+        inputSchema: zodToJsonSchema(AddSiteSchema),
+      },
+      {
+        name: 'delete_site',
+        description: 'Remove a property from an account in Google Search Console. Use dryRun to check what would be removed.',
+        inputSchema: zodToJsonSchema(DeleteSiteSchema),
+      },
       {
         name: 'search_analytics',
-        description: 'Get search performance data with up to 25,000 rows, regex filters, and flexible date ranges',
+        description: 'Get search performance data with regex filters and flexible date ranges. Up to 25,000 rows per page, or every row with paginate',
         inputSchema: zodToJsonSchema(SearchAnalyticsSchema),
       },
       {
         name: 'detect_quick_wins',
-        description: 'Automatically detect SEO quick wins - keywords with high impressions but low CTR in positions 4-20',
+        description: 'Automatically detect SEO quick wins - keywords with high impressions but low CTR in positions 4-20. Potential clicks use a CTR-by-position curve fitted on the site\'s non-branded queries for the device and search type, falling back to a default curve',
         inputSchema: zodToJsonSchema(QuickWinsSchema),
       },
+      {
+        name: 'detect_cannibalization',
+        description: 'Find queries for which several pages of the site compete for impressions, how clicks and positions are split between them and how often the ranking URL changes by day, ranked by lost-click potential',
+        inputSchema: zodToJsonSchema(CannibalizationSchema),
+      },
+      {
+        name: 'detect_anomalies',
+        description: 'Flag significant daily drops and spikes in clicks, impressions, CTR and position, accounting for weekday seasonality, and attribute each one to the pages, queries, countries or devices that changed most',
+        inputSchema: zodToJsonSchema(DetectAnomaliesSchema),
+      },
+      {
+        name: 'detect_content_decay',
+        description: 'Find pages whose clicks have declined steadily from a past peak over the available history (by month or rolling 28 days), with the queries that lost the most clicks',
+        inputSchema: zodToJsonSchema(ContentDecaySchema),
+      },
+      {
+        name: 'set_brand_terms',
+        description: 'Store the brand regexes of a site with its account configuration, used by segment_queries to split branded from non-branded queries and left out of the detect_quick_wins CTR curve',
+        inputSchema: zodToJsonSchema(SetBrandTermsSchema),
+      },
+      {
+        name: 'segment_queries',
+        description: 'Split queries into branded and non-branded, cluster the non-branded ones by shared n-grams, and report clicks, impressions, CTR and position per segment and cluster, optionally compared with a previous period',
+        inputSchema: zodToJsonSchema(SegmentQueriesSchema),
+      },
       {
         name: 'compare_periods',
-        description: 'Compare search performance between two time periods',
+        description: 'Compare search performance between two time periods row by row: classifies every query/page/... of either period as new, lost, improved, declined or stable, attributes the net click change to those categories, and ranks winners and losers by clicks, impressions, CTR and position',
         inputSchema: zodToJsonSchema(ComparePeriodsSchema),
       },
+      {
+        name: 'portfolio_overview',
+        description: 'Clicks, impressions, CTR and position of every property visible to any configured account, with the change vs the previous period and big drops flagged. Properties visible to several accounts are reported once; accounts or sites that fail are listed without failing the report',
+        inputSchema: zodToJsonSchema(PortfolioOverviewSchema),
+      },
+      {
+        name: 'clear_cache',
+        description: 'Clear cached Search Analytics responses, for all accounts and sites or only those given',
+        inputSchema: zodToJsonSchema(ClearCacheSchema),
+      },
+      {
+        name: 'get_quota_usage',
+        description: 'Show API calls made today and the remaining quota per account, property and API (Search Analytics, URL Inspection, Indexing API publish). Daily quotas reset at midnight Pacific time.',
+        inputSchema: zodToJsonSchema(QuotaUsageSchema),
+      },
+      {
+        name: 'sync_site_history',
+        description: 'Copy daily query/page/country/device rows of a site into the local history database, backfilling missing days and refreshing days that were not final yet. Keeps data beyond the 16-month GSC retention. Search types: web, image, video, news.',
+        inputSchema: zodToJsonSchema(SyncSiteHistorySchema),
+      },
+      {
+        name: 'query_history',
+        description: 'Query the local history database like search_analytics, including dates older than 16 months. Run sync_site_history first. Rows are stored by query, so anonymized queries are left out and totals are lower than search_analytics reports for the same range.',
+        inputSchema: zodToJsonSchema(QueryHistorySchema),
+      },
       {
         name: 'inspect_url',
         description: 'Inspect URL indexing status in Google Search Console',
         inputSchema: zodToJsonSchema(InspectUrlSchema),
       },
+      {
+        name: 'bulk_inspect_urls',
+        description: 'Inspect many URLs (a list, or the top pages matching a filter) and summarize them by verdict, coverage state, canonical mismatch, robots.txt/indexing state and mobile usability',
+        inputSchema: zodToJsonSchema(BulkInspectUrlsSchema),
+      },
       {
         name: 'submit_url_for_indexing',
         description: 'Submit a URL to Google for indexing or request removal (uses Indexing API)',
         inputSchema: zodToJsonSchema(SubmitIndexingSchema),
       },
+      {
+        name: 'bulk_submit_urls_for_indexing',
+        description: 'Submit many URLs to the Indexing API in batches of 100, skipping URLs submitted recently and stopping at the daily publish quota. Every notification is logged with its result.',
+        inputSchema: zodToJsonSchema(BulkSubmitIndexingSchema),
+      },
+      {
+        name: 'get_indexing_notifications',
+        description: 'Show the latest URL_UPDATED / URL_DELETED notifications Google received for URLs (Indexing API metadata), with the local submission log',
+        inputSchema: zodToJsonSchema(IndexingNotificationsSchema),
+      },
       {
         name: 'list_sitemaps',
         description: 'List all sitemaps for a site',
@@ -131,6 +394,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description: 'Submit a sitemap to Google Search Console',
         inputSchema: zodToJsonSchema(SubmitSitemapSchema),
       },
+      {
+        name: 'get_sitemap',
+        description: 'Get a sitemap: processing status, errors, warnings and submitted/indexed counts per content type',
+        inputSchema: zodToJsonSchema(GetSitemapSchema),
+      },
+      {
+        name: 'delete_sitemap',
+        description: 'Delete a sitemap from Google Search Console. Use dryRun to check what would be deleted.',
+        inputSchema: zodToJsonSchema(DeleteSitemapSchema),
+      },
+      {
+        name: 'analyze_sitemap',
+        description: 'Download and parse a sitemap (or every submitted sitemap), including sitemap indexes and gzip: URL counts, lastmod distribution, duplicates and URLs outside the property, cross-checked against pages with impressions and an optional sample of URL inspections',
+        inputSchema: zodToJsonSchema(AnalyzeSitemapSchema),
+      },
     ],
   };
 });
@@ -143,18 +421,85 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     switch (name) {
       case 'register_account': {
         const params = RegisterAccountSchema.parse(args);
-        accountManager.registerAccount(
-          params.id,
-          params.email,
-          params.refreshToken,
-          params.accessToken
-        );
+        await accountManager.registerAccount({
+          id: params.id,
+          email: params.email,
+          refreshToken: params.refreshToken,
+          accessToken: params.accessToken,
+          clientId: params.clientId,
+          clientSecret: params.clientSecret,
+          serviceAccount: params.refreshToken
+            ? undefined
+            : { key: params.serviceAccountKey, keyFile: params.serviceAccountKeyFile, subject: params.subject },
+        });
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
               message: `Account ${params.id} (${params.email}) registered successfully`,
+              persisted: accountManager.persistent,
+              totalAccounts: accountManager.count,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'unregister_account': {
+        const params = UnregisterAccountSchema.parse(args);
+        const removed = await accountManager.unregisterAccount(params.account);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Account ${removed.id} (${removed.email}) unregistered successfully`,
+              totalAccounts: accountManager.count,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'start_account_authorization': {
+        const params = StartAuthorizationSchema.parse(args);
+        const started = await authorizationFlow.start(params);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...started,
+              instructions: started.mode === 'loopback'
+                ? 'Open authUrl in a browser on this machine and grant access, then call complete_account_authorization with the authorizationId.'
+                : 'Open authUrl in a browser and grant access. The browser will be redirected to a page that fails to load: copy its full URL and pass it as "code" to complete_account_authorization.',
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'complete_account_authorization': {
+        const params = CompleteAuthorizationSchema.parse(args);
+        const authorized = await authorizationFlow.complete(params.authorizationId, {
+          code: params.code,
+          waitSeconds: params.waitSeconds,
+        });
+        const id = authorized.accountId || authorized.email;
+        await accountManager.registerAccount({
+          id,
+          email: authorized.email,
+          refreshToken: authorized.refreshToken,
+          accessToken: authorized.accessToken,
+          clientId: authorized.clientId,
+          clientSecret: authorized.clientSecret,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `Account ${id} (${authorized.email}) authorized and registered successfully`,
+              scopes: authorized.scopes,
+              persisted: accountManager.persistent,
               totalAccounts: accountManager.count,
             }, null, 2),
           }],
@@ -191,14 +536,120 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'find_site_owner': {
+        const params = FindSiteOwnerSchema.parse(args);
+        const resolution = await accountManager.findSiteOwner(params.siteUrl, params.refresh);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              siteUrl: params.siteUrl,
+              account: resolution.chosen
+                ? { id: resolution.chosen.accountId, email: resolution.chosen.email }
+                : null,
+              reason: resolution.reason,
+              candidates: resolution.candidates.map(c => ({
+                account: c.email,
+                property: c.siteUrl,
+                permissionLevel: c.permissionLevel,
+                match: c.match,
+              })),
+              accountErrors: resolution.accountErrors,
+              indexBuiltAt: resolution.indexBuiltAt,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'get_site': {
+        const params = GetSiteSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        const result = await service.getSite(params.siteUrl);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: result.data.siteUrl,
+              permissionLevel: result.data.permissionLevel,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'add_site': {
+        const params = AddSiteSchema.parse(args);
+        // The property belongs to no account yet: no routing by siteUrl
+        const { service, email } = await getService(params.account);
+
+        await service.addSite(params.siteUrl);
+        accountManager.invalidateSiteIndex();
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: email,
+              siteUrl: params.siteUrl,
+              message: 'Site added. Verify ownership in Search Console before querying it.',
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'delete_site': {
+        const params = DeleteSiteSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        if (params.dryRun) {
+          const site = await service.getSite(params.siteUrl);
+          // getSite falls back to sc-domain, deleteSite does not
+          const exact = site.data.siteUrl === params.siteUrl;
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                dryRun: true,
+                account: email,
+                siteUrl: params.siteUrl,
+                permissionLevel: exact ? site.data.permissionLevel : undefined,
+                message: exact
+                  ? `Would remove ${params.siteUrl} from ${email}`
+                  : `${params.siteUrl} is not a property of ${email} (found ${site.data.siteUrl}); delete_site only removes the exact property given`,
+              }, null, 2),
+            }],
+          };
+        }
+
+        await service.deleteSite(params.siteUrl);
+        accountManager.invalidateSiteIndex();
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: email,
+              siteUrl: params.siteUrl,
+              message: 'Site removed from the account',
+            }, null, 2),
+          }],
+        };
+      }
+
       case 'search_analytics': {
         const params = SearchAnalyticsSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const dateRange = resolveDateRange(params, { dataState: params.dataState });
+        const { service, email } = await getService(params.account, params.siteUrl, params);
 
         // Build request
         const requestBody: any = {
-          startDate: params.startDate,
-          endDate: params.endDate,
+          startDate: dateRange.start,
+          endDate: dateRange.end,
           dimensions: params.dimensions,
           searchType: params.type,
           aggregationType: params.aggregationType,
@@ -208,50 +659,53 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
 
         // Build filters
-        const filters: any[] = [];
-        if (params.pageFilter) {
-          filters.push({
-            dimension: 'page',
-            operator: params.filterOperator || 'contains',
-            expression: params.pageFilter,
-          });
-        }
-        if (params.queryFilter) {
-          filters.push({
-            dimension: 'query',
-            operator: params.filterOperator || 'contains',
-            expression: params.queryFilter,
-          });
-        }
-        if (params.countryFilter) {
-          filters.push({
-            dimension: 'country',
-            operator: 'equals',
-            expression: params.countryFilter,
-          });
-        }
-        if (params.deviceFilter) {
-          filters.push({
-            dimension: 'device',
-            operator: 'equals',
-            expression: params.deviceFilter,
-          });
-        }
+        requestBody.dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const result = await service.searchAnalytics(
+          params.siteUrl,
+          requestBody,
+          params.paginate ? { maxRows: params.maxRows, splitByDay: params.splitByDay } : undefined
+        );
 
-        if (filters.length > 0) {
-          requestBody.dimensionFilterGroups = [{ groupType: 'and', filters }];
+        if (params.output !== 'inline') {
+          const rows = result.data.rows || [];
+          const exported = await exportRows(
+            rows,
+            params.dimensions,
+            params.output,
+            exportFileName(params.siteUrl, [dateRange.start, dateRange.end], params.output)
+          );
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                account: email,
+                siteUrl: params.siteUrl,
+                dateRange,
+                pagination: result.pagination,
+                cached: result.cached,
+                export: exported,
+                summary: {
+                  rowCount: rows.length,
+                  clicks: rows.reduce((sum, row) => sum + (row.clicks || 0), 0),
+                  impressions: rows.reduce((sum, row) => sum + (row.impressions || 0), 0),
+                },
+              }, null, 2),
+            }],
+          };
         }
 
-        const result = await service.searchAnalytics(params.siteUrl, requestBody);
-        
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               account: email,
               siteUrl: params.siteUrl,
-              dateRange: { start: params.startDate, end: params.endDate },
+              dateRange,
               rowCount: result.data.rows?.length || 0,
+              pagination: result.pagination,
+              cached: result.cached,
               data: result.data,
             }, null, 2),
           }],
@@ -260,18 +714,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'detect_quick_wins': {
         const params = QuickWinsSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const dateRange = resolveDateRange(params);
+        const { service, email, accountId } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+        const brandTerms = params.brandTerms ?? accountManager.getSiteSettings(accountId, params.siteUrl)?.brandTerms ?? [];
 
-        const quickWins = await service.detectQuickWins(
+        const { quickWins, ctrCurve } = await service.detectQuickWins(
           params.siteUrl,
-          params.startDate,
-          params.endDate,
+          dateRange.start,
+          dateRange.end,
           {
             minImpressions: params.minImpressions,
             maxCtr: params.maxCtr,
             positionRangeMin: params.positionRangeMin,
             positionRangeMax: params.positionRangeMax,
             limit: params.limit,
+          },
+          { maxRows: params.maxRows, splitByDay: params.splitByDay },
+          dimensionFilterGroups,
+          {
+            searchType: params.type,
+            brandPatterns: brandPatterns(brandTerms),
+            device: params.deviceFilter,
+            siteCurve: params.ctrCurve === 'site',
+            targetPosition: params.targetPosition,
+            defaultCurve: defaultCtrCurve(params.defaultCurve),
           }
         );
 
@@ -284,11 +751,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             text: JSON.stringify({
               account: email,
               siteUrl: params.siteUrl,
-              dateRange: { start: params.startDate, end: params.endDate },
+              dateRange,
               thresholds: {
                 minImpressions: params.minImpressions,
                 maxCtr: params.maxCtr,
                 positionRange: `${params.positionRangeMin}-${params.positionRangeMax}`,
+                targetPosition: params.targetPosition,
+              },
+              filters: dimensionFilterGroups?.[0].filters,
+              ctrCurve: {
+                source: ctrCurve.source,
+                device: ctrCurve.device,
+                searchType: ctrCurve.searchType,
+                brandTerms,
+                fittedRows: ctrCurve.rows,
+                fittedImpressions: ctrCurve.impressions,
+                points: ctrCurve.points.map(point => ({
+                  position: point.position,
+                  ctr: Number((point.ctr * 100).toFixed(2)),
+                  impressions: point.impressions,
+                  confidence: point.confidence,
+                })),
               },
               summary: {
                 totalQuickWins: quickWins.length,
@@ -301,18 +784,253 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'detect_cannibalization': {
+        const params = CannibalizationSchema.parse(args);
+        const dateRange = resolveDateRange(params);
+        const { service, email } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const result = await service.detectCannibalization(
+          params.siteUrl,
+          dateRange.start,
+          dateRange.end,
+          {
+            minPageImpressions: params.minPageImpressions,
+            minImpressionShare: params.minImpressionShare / 100,
+            limit: params.limit,
+          },
+          { maxRows: params.maxRows, splitByDay: params.splitByDay },
+          dimensionFilterGroups
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              dateRange,
+              thresholds: {
+                minPageImpressions: params.minPageImpressions,
+                minImpressionShare: params.minImpressionShare,
+              },
+              filters: dimensionFilterGroups?.[0].filters,
+              summary: {
+                analyzedQueries: result.analyzedQueries,
+                conflictingQueries: result.conflictingQueries,
+                lostClickPotential: result.conflicts.reduce((sum, conflict) => sum + conflict.lostClickPotential, 0),
+              },
+              conflicts: result.conflicts,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'detect_anomalies': {
+        const params = DetectAnomaliesSchema.parse(args);
+        const dateRange = resolveDateRange(params);
+        const { service, email } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const report = await detectAnomalies(service, params.siteUrl, {
+          startDate: dateRange.start,
+          endDate: dateRange.end,
+          metrics: params.metrics,
+          threshold: params.threshold,
+          segmentDimension: params.segmentDimension,
+          maxSegmentRows: params.maxSegmentRows,
+          dimensionFilterGroups,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              dateRange,
+              baselineRange: report.baselineRange,
+              filters: dimensionFilterGroups?.[0].filters,
+              summary: {
+                daysScored: report.daysScored,
+                anomalies: report.anomalies.length,
+                negative: report.anomalies.filter(anomaly => anomaly.impact === 'negative').length,
+                positive: report.anomalies.filter(anomaly => anomaly.impact === 'positive').length,
+              },
+              anomalies: report.anomalies.slice(0, params.limit),
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'detect_content_decay': {
+        const params = ContentDecaySchema.parse(args);
+        const dateRange = resolveDateRange(params, { defaultRange: 'last16m' });
+        const { service, email } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const result = await service.detectContentDecay(
+          params.siteUrl,
+          dateRange.start,
+          dateRange.end,
+          {
+            granularity: params.granularity,
+            minPeakClicks: params.minPeakClicks,
+            minDeclinePercent: params.minDeclinePercent,
+            minPeriodsSincePeak: params.minPeriodsSincePeak,
+            limit: params.limit,
+            maxRowsPerPeriod: params.maxRowsPerPeriod,
+          },
+          dimensionFilterGroups
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              dateRange,
+              granularity: params.granularity,
+              periods: result.periods,
+              filters: dimensionFilterGroups?.[0].filters,
+              summary: {
+                analyzedPages: result.analyzedPages,
+                decliningPages: result.decliningPages,
+                lostClicks: result.pages.reduce((sum, page) => sum + page.lostClicks, 0),
+              },
+              pages: result.pages,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'set_brand_terms': {
+        const params = SetBrandTermsSchema.parse(args);
+        const { email, accountId } = await getService(params.account, params.siteUrl);
+
+        const persisted = await accountManager.setSiteSettings(accountId, params.siteUrl, {
+          ...accountManager.getAccount(accountId)?.sites?.[params.siteUrl],
+          brandTerms: params.brandTerms,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: email,
+              siteUrl: params.siteUrl,
+              brandTerms: params.brandTerms,
+              persisted,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'segment_queries': {
+        const params = SegmentQueriesSchema.parse(args);
+        const dateRange = resolveDateRange(params);
+        const { service, email, accountId } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const brandTerms = params.brandTerms ?? accountManager.getSiteSettings(accountId, params.siteUrl)?.brandTerms ?? [];
+        const patterns = brandPatterns(brandTerms);
+        const clusterOptions = { maxClusters: params.maxClusters, minClusterSize: params.minClusterSize };
+
+        // Query rows plus site totals, whose difference is anonymized queries
+        const fetchPeriod = async (range: { start: string; end: string }) => {
+          const [rows, totals] = await Promise.all([
+            service.searchAnalytics(params.siteUrl, {
+              startDate: range.start,
+              endDate: range.end,
+              dimensions: ['query'],
+              dimensionFilterGroups,
+            }, { maxRows: params.maxRows }),
+            service.searchAnalytics(params.siteUrl, {
+              startDate: range.start,
+              endDate: range.end,
+              dimensionFilterGroups,
+            }),
+          ]);
+          const queryRows = rows.data.rows || [];
+          const total = totals.data.rows?.[0];
+          const truncated = !!rows.pagination?.truncated;
+          return {
+            rows: queryRows,
+            // Rows cut by maxRows would otherwise count as anonymized
+            anonymized: truncated ? null : {
+              clicks: Math.max(0, (total?.clicks || 0) - queryRows.reduce((sum, row) => sum + (row.clicks || 0), 0)),
+              impressions: Math.max(0, (total?.impressions || 0) - queryRows.reduce((sum, row) => sum + (row.impressions || 0), 0)),
+            },
+            truncated,
+          };
+        };
+
+        const current = await fetchPeriod(dateRange);
+        const { labels, ...segments } = segmentQueries(current.rows, patterns, clusterOptions);
+
+        let previousDateRange;
+        let comparison;
+        if (params.vs) {
+          const shifted = shiftDateRange(dateRange, params.vs === 'yoy' ? 'same_period_last_year' : 'previous_period');
+          previousDateRange = resolveDateRange({ startDate: shifted.start, endDate: shifted.end });
+          const previous = await fetchPeriod(previousDateRange);
+          comparison = {
+            ...compareSegmentations(segments, segmentQueries(previous.rows, patterns, clusterOptions, labels)),
+            anonymized: { current: current.anonymized, previous: previous.anonymized },
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              dateRange,
+              previousDateRange,
+              brandTerms,
+              note: brandTerms.length === 0
+                ? 'No brand terms configured for this site: every query is non-branded. Set them with set_brand_terms.'
+                : undefined,
+              filters: dimensionFilterGroups?.[0].filters,
+              truncated: current.truncated || undefined,
+              ...(comparison ?? { ...segments, anonymized: current.anonymized }),
+            }, null, 2),
+          }],
+        };
+      }
+
       case 'compare_periods': {
         const params = ComparePeriodsSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const currentRange = resolveDateRange({
+          startDate: params.currentStartDate,
+          endDate: params.currentEndDate,
+          dateRange: params.dateRange,
+        });
+        if ((params.previousStartDate || params.previousEndDate) && params.vs) {
+          throw new McpError(ErrorCode.InvalidParams, 'Use either previousStartDate/previousEndDate or vs, not both');
+        }
+        // Without explicit previous dates, derive them from the current range
+        const shifted = shiftDateRange(currentRange, params.vs === 'yoy' ? 'same_period_last_year' : 'previous_period');
+        const previousRange = params.previousStartDate || params.previousEndDate
+          ? resolveDateRange({ startDate: params.previousStartDate, endDate: params.previousEndDate })
+          : resolveDateRange({ startDate: shifted.start, endDate: shifted.end });
+        const { service, email } = await getService(params.account, params.siteUrl, params);
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
 
         const result = await service.comparePeriods(
           params.siteUrl,
-          params.currentStartDate,
-          params.currentEndDate,
-          params.previousStartDate,
-          params.previousEndDate,
+          currentRange.start,
+          currentRange.end,
+          previousRange.start,
+          previousRange.end,
           params.dimensions,
-          params.rowLimit
+          params.rowLimit,
+          { maxRows: params.maxRows, splitByDay: params.splitByDay },
+          dimensionFilterGroups,
+          params.stableThreshold
         );
 
         return {
@@ -321,15 +1039,168 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             text: JSON.stringify({
               account: email,
               siteUrl: params.siteUrl,
+              currentDateRange: currentRange,
+              previousDateRange: previousRange,
+              filters: dimensionFilterGroups?.[0].filters,
               ...result,
             }, null, 2),
           }],
         };
       }
 
+      case 'portfolio_overview': {
+        const params = PortfolioOverviewSchema.parse(args);
+        const currentRange = resolveDateRange(params);
+        const shifted = shiftDateRange(currentRange, params.vs === 'yoy' ? 'same_period_last_year' : 'previous_period');
+        const previousRange = resolveDateRange({ startDate: shifted.start, endDate: shifted.end });
+        const index = await accountManager.getSiteIndex(params.refresh);
+
+        const overview = await portfolioOverview(
+          index,
+          async accountId => (await getService(accountId, undefined, params)).service,
+          {
+            current: currentRange,
+            previous: previousRange,
+            searchType: params.type,
+            dropThreshold: params.dropThreshold,
+            minClicks: params.minClicks,
+            sortBy: params.sortBy,
+            concurrency: params.concurrency,
+          }
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              currentDateRange: currentRange,
+              previousDateRange: previousRange,
+              indexBuiltAt: new Date(index.builtAt).toISOString(),
+              summary: {
+                accounts: accountManager.count,
+                accountsFailed: overview.errors.accounts.length,
+                sites: overview.sites.length,
+                // Covered by another reported property, left out of the totals
+                overlappingSites: overview.sites.filter(site => site.coveredBy).length,
+                sitesFailed: overview.errors.sites.length,
+                flagged: overview.sites.filter(site => site.flags.length > 0).length,
+              },
+              ...overview,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'clear_cache': {
+        const params = ClearCacheSchema.parse(args);
+        if (!responseCache) {
+          throw new McpError(ErrorCode.InvalidRequest, 'Response cache is disabled (GSC_CACHE=off)');
+        }
+        const account = params.account ? accountManager.getAccount(params.account) : undefined;
+        if (params.account && !account) {
+          throw new McpError(ErrorCode.InvalidParams, `Account not found: ${params.account}`);
+        }
+        const removed = responseCache.clear({ accountId: account?.id, siteUrl: params.siteUrl });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: account?.email,
+              siteUrl: params.siteUrl,
+              removedEntries: removed,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'get_quota_usage': {
+        const params = QuotaUsageSchema.parse(args);
+        const account = params.account ? accountManager.getAccount(params.account) : undefined;
+        if (params.account && !account) {
+          throw new McpError(ErrorCode.InvalidParams, `Account not found: ${params.account}`);
+        }
+        const usage = accountManager.quota.usage({
+          accountId: account?.id,
+          projectId: account ? accountManager.quotaProject(account.id) : undefined,
+          property: params.siteUrl,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              day: gscToday(),
+              timezone: 'America/Los_Angeles',
+              usage,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'sync_site_history': {
+        const params = SyncSiteHistorySchema.parse(args);
+        // Daily rows go to the history database, not the response cache
+        const { service, email, accountId } = await getService(params.account, params.siteUrl, { cache: false });
+        const store = getHistoryStore();
+
+        const result = await syncSiteHistory(service, store, params.siteUrl, {
+          accountId,
+          searchType: params.type,
+          startDate: params.startDate,
+          maxDays: params.maxDays,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              database: store.file,
+              ...result,
+              message: result.remainingDays > 0
+                ? `${result.remainingDays} day(s) left to sync, call sync_site_history again to continue`
+                : 'History is up to date',
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'query_history': {
+        const params = QueryHistorySchema.parse(args);
+        const dateRange = resolveDateRange(params, { clampToRetention: false });
+        const store = getHistoryStore();
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+
+        const data = store.query(params.siteUrl, {
+          startDate: dateRange.start,
+          endDate: dateRange.end,
+          searchType: params.type,
+          dimensions: params.dimensions,
+          filters: dimensionFilterGroups?.[0].filters,
+          rowLimit: params.rowLimit,
+          startRow: params.startRow,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              siteUrl: params.siteUrl,
+              dateRange,
+              coverage: store.coverage(params.siteUrl, params.type, dateRange.start, dateRange.end),
+              rowCount: data.rows.length,
+              data,
+            }, null, 2),
+          }],
+        };
+      }
+
       case 'inspect_url': {
         const params = InspectUrlSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const { service, email } = await getService(params.account, params.siteUrl);
 
         const result = await service.inspectUrl(
           params.siteUrl,
@@ -349,50 +1220,173 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'bulk_inspect_urls': {
+        const params = BulkInspectUrlsSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        // Without a URL list, inspect the top pages from search analytics
+        let urls = params.urls;
+        let dateRange;
+        const dimensionFilterGroups = buildDimensionFilterGroups(params);
+        if (!urls) {
+          dateRange = resolveDateRange(params);
+          const result = await service.searchAnalytics(params.siteUrl, {
+            startDate: dateRange.start,
+            endDate: dateRange.end,
+            dimensions: ['page'],
+            dimensionFilterGroups,
+            rowLimit: params.maxUrls,
+          });
+          urls = (result.data.rows || []).map(row => row.keys?.[0] || '').filter(Boolean);
+        } else if (dimensionFilterGroups) {
+          throw new McpError(ErrorCode.InvalidParams, 'Use either urls or filters to select pages, not both');
+        }
+
+        const inspection = await bulkInspectUrls(service, params.siteUrl, urls.slice(0, params.maxUrls), {
+          concurrency: params.concurrency,
+          languageCode: params.languageCode,
+        });
+        const exported = params.output === 'inline'
+          ? undefined
+          : await exportRecords(
+            inspection.records,
+            INSPECTION_COLUMNS,
+            params.output,
+            exportFileName(params.siteUrl, ['inspection'], params.output)
+          );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              dateRange,
+              filters: dimensionFilterGroups?.[0].filters,
+              summary: inspection.summary,
+              skippedUrls: inspection.skippedUrls.length > 0 ? inspection.skippedUrls : undefined,
+              export: exported,
+              results: exported ? undefined : inspection.records,
+            }, null, 2),
+          }],
+        };
+      }
+
       case 'submit_url_for_indexing': {
         const params = SubmitIndexingSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const { service, email, accountId } = await getService(params.account);
 
+        let result;
         try {
-          const result = await service.submitUrlForIndexing(params.url, params.type);
-          
-          return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                account: email,
-                url: params.url,
-                type: params.type,
-                notifyTime: new Date().toISOString(),
-                message: params.type === 'URL_UPDATED'
-                  ? 'Successfully submitted URL for indexing. Google will crawl this URL soon.'
-                  : 'Successfully requested URL removal from index.',
-                response: result.data,
-              }, null, 2),
-            }],
-          };
-        } catch (error: any) {
-          if (error.code === 403) {
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: 'Indexing API not enabled or insufficient permissions',
-                  suggestion: 'Enable the Indexing API in Google Cloud Console and ensure your OAuth has the indexing scope.',
-                  url: params.url,
-                }, null, 2),
-              }],
-            };
+          result = await service.submitUrlForIndexing(params.url, params.type, { retry: params.retry });
+        } catch (e) {
+          // Like bulk submissions, calls refused for quota were not sent and aren't logged
+          const apiError = classifyApiError(e);
+          if (apiError?.kind !== 'quota_exceeded') {
+            recordSubmissions(accountId, [{
+              url: params.url,
+              type: params.type,
+              status: apiError?.status ?? 0,
+              error: e instanceof Error ? e.message : String(e),
+            }]);
           }
-          throw error;
+          throw e;
         }
+        const logError = recordSubmissions(accountId, [{
+          url: params.url,
+          type: params.type,
+          status: result.status,
+          notifyTime: (params.type === 'URL_DELETED'
+            ? result.data.urlNotificationMetadata?.latestRemove?.notifyTime
+            : result.data.urlNotificationMetadata?.latestUpdate?.notifyTime) || undefined,
+        }]);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: email,
+              url: params.url,
+              type: params.type,
+              notifyTime: new Date().toISOString(),
+              message: params.type === 'URL_UPDATED'
+                ? 'Successfully submitted URL for indexing. Google will crawl this URL soon.'
+                : 'Successfully requested URL removal from index.',
+              response: result.data,
+              logError,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'bulk_submit_urls_for_indexing': {
+        const params = BulkSubmitIndexingSchema.parse(args);
+        const { service, email, accountId } = await getService(params.account);
+
+        const result = await bulkSubmitUrls(service, getSubmissionLog(), params.urls, {
+          accountId,
+          type: params.type,
+          dedupeHours: params.dedupeHours,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              type: params.type,
+              submitted: result.submitted,
+              succeeded: result.succeeded,
+              failed: result.failed,
+              duplicates: result.duplicates.length > 0 ? result.duplicates : undefined,
+              skippedUrls: result.skippedUrls.length > 0 ? result.skippedUrls : undefined,
+              remainingQuota: result.remainingQuota,
+              results: result.results,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'get_indexing_notifications': {
+        const params = IndexingNotificationsSchema.parse(args);
+        const { service, email, accountId } = await getService(params.account);
+        const log = getSubmissionLog();
+
+        // Without a URL list, look up what this account submitted last
+        const logged = log.latest({ accountId, urls: params.urls, limit: params.limit });
+        const urls = (params.urls || logged.map(submission => submission.url)).slice(0, params.limit);
+
+        const notifications = [];
+        for (const url of urls) {
+          try {
+            const metadata = await service.getUrlNotificationMetadata(url);
+            notifications.push({
+              url,
+              latestUpdate: metadata?.latestUpdate?.notifyTime || null,
+              latestRemove: metadata?.latestRemove?.notifyTime || null,
+              lastSubmission: logged.find(submission => submission.url === url) || null,
+            });
+          } catch (e) {
+            notifications.push({ url, error: e instanceof Error ? e.message : String(e) });
+          }
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              count: notifications.length,
+              notifications,
+            }, null, 2),
+          }],
+        };
       }
 
       case 'list_sitemaps': {
         const params = ListSitemapsSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const { service, email } = await getService(params.account, params.siteUrl);
 
         const result = await service.listSitemaps(params.siteUrl);
 
@@ -410,7 +1404,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'submit_sitemap': {
         const params = SubmitSitemapSchema.parse(args);
-        const { service, email } = await getService(params.account);
+        const { service, email } = await getService(params.account, params.siteUrl);
 
         await service.submitSitemap(params.siteUrl, params.feedpath);
 
@@ -428,6 +1422,101 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_sitemap': {
+        const params = GetSitemapSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        const result = await service.getSitemap(params.siteUrl, params.feedpath);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              sitemap: result.data,
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'delete_sitemap': {
+        const params = DeleteSitemapSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        if (params.dryRun) {
+          const sitemap = await service.getSitemap(params.siteUrl, params.feedpath);
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                dryRun: true,
+                account: email,
+                siteUrl: params.siteUrl,
+                sitemap: sitemap.data,
+                message: `Would delete ${params.feedpath}`,
+              }, null, 2),
+            }],
+          };
+        }
+
+        await service.deleteSitemap(params.siteUrl, params.feedpath);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              account: email,
+              siteUrl: params.siteUrl,
+              sitemap: params.feedpath,
+              message: 'Sitemap deleted',
+            }, null, 2),
+          }],
+        };
+      }
+
+      case 'analyze_sitemap': {
+        const params = AnalyzeSitemapSchema.parse(args);
+        const { service, email } = await getService(params.account, params.siteUrl);
+
+        // Without a sitemap URL, analyze everything submitted for the site
+        let sitemapUrls = params.sitemapUrl ? [params.sitemapUrl] : [];
+        if (!params.sitemapUrl) {
+          const listed = await service.listSitemaps(params.siteUrl);
+          sitemapUrls = (listed.data.sitemap || []).map(sitemap => sitemap.path || '').filter(Boolean);
+          if (sitemapUrls.length === 0) {
+            throw new McpError(ErrorCode.InvalidParams, `No sitemap submitted for ${params.siteUrl}; pass sitemapUrl`);
+          }
+        }
+
+        const sitemap = await fetchSitemaps(sitemapUrls, { maxSitemaps: params.maxSitemaps });
+        const analysis = analyzeSitemap(sitemap, params.siteUrl);
+
+        let crossCheck;
+        if (params.crossCheck || params.inspectSample > 0) {
+          const dateRange = resolveDateRange(params);
+          crossCheck = await crossCheckSitemap(service, params.siteUrl, sitemap.entries.map(entry => entry.loc), {
+            startDate: dateRange.start,
+            endDate: dateRange.end,
+            inspectSample: params.inspectSample,
+          });
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              account: email,
+              siteUrl: params.siteUrl,
+              sitemapUrls,
+              ...analysis,
+              crossCheck,
+            }, null, 2),
+          }],
+        };
+      }
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
@@ -438,6 +1527,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         `Invalid arguments: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
       );
     }
+    const apiError = classifyApiError(error);
+    if (apiError) {
+      throw new McpError(
+        API_ERROR_CODES[apiError.kind],
+        `${apiError.message} [${apiError.kind}] ${apiError.hint}`,
+        { kind: apiError.kind, status: apiError.status, reason: apiError.reason, hint: apiError.hint }
+      );
+    }
     throw error;
   }
 });
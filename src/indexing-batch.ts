@@ -0,0 +1,97 @@
+/**
+ * Indexing API batch requests
+ *
+ * The batch endpoint takes up to 100 publish calls in one multipart/mixed
+ * HTTP request and answers with one HTTP response per part. Each part still
+ * counts against the publish quota.
+ */
+
+import * as crypto from 'crypto';
+
+export const INDEXING_BATCH_URL = 'https://indexing.googleapis.com/batch';
+export const MAX_BATCH_SIZE = 100;
+
+export type NotificationType = 'URL_UPDATED' | 'URL_DELETED';
+
+export interface UrlNotification {
+  url: string;
+  type: NotificationType;
+}
+
+export interface BatchPartResult {
+  url: string;
+  type: NotificationType;
+  status: number;
+  notifyTime?: string;
+  error?: string;
+}
+
+/**
+ * Build the multipart body of a publish batch
+ */
+export function buildBatchBody(notifications: UrlNotification[]): { boundary: string; body: string } {
+  const boundary = `batch_${crypto.randomBytes(12).toString('hex')}`;
+  const parts = notifications.map((notification, index) => [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    `Content-ID: <item${index}>`,
+    '',
+    'POST /v3/urlNotifications:publish',
+    'Content-Type: application/json',
+    'Accept: application/json',
+    '',
+    JSON.stringify({ url: notification.url, type: notification.type }),
+  ].join('\r\n'));
+
+  return { boundary, body: `${parts.join('\r\n')}\r\n--${boundary}--\r\n` };
+}
+
+/**
+ * Match the parts of a batch response to the notifications sent, by Content-ID
+ */
+export function parseBatchResponse(
+  contentType: string,
+  body: string,
+  notifications: UrlNotification[]
+): BatchPartResult[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) {
+    throw new Error(`Unexpected batch response content type: ${contentType}`);
+  }
+
+  const results = new Map<number, BatchPartResult>();
+  for (const part of body.split(`--${boundary}`)) {
+    const id = /Content-ID:\s*<response-item(\d+)>/i.exec(part)?.[1];
+    const status = /HTTP\/[\d.]+\s+(\d{3})/.exec(part)?.[1];
+    if (id === undefined || status === undefined) continue;
+
+    const notification = notifications[Number(id)];
+    if (!notification) continue;
+
+    const json = part.slice(part.indexOf('{'), part.lastIndexOf('}') + 1);
+    let payload: {
+      urlNotificationMetadata?: { latestUpdate?: { notifyTime?: string }; latestRemove?: { notifyTime?: string } };
+      error?: { message?: string };
+    } = {};
+    try {
+      payload = json ? JSON.parse(json) : {};
+    } catch {
+      // Non-JSON part: keep the status only
+    }
+
+    const metadata = payload.urlNotificationMetadata;
+    results.set(Number(id), {
+      ...notification,
+      status: Number(status),
+      notifyTime: notification.type === 'URL_DELETED'
+        ? metadata?.latestRemove?.notifyTime
+        : metadata?.latestUpdate?.notifyTime,
+      error: Number(status) >= 400 ? payload.error?.message || `HTTP ${status}` : undefined,
+    });
+  }
+
+  // A part missing from the response was not processed
+  return notifications.map((notification, index) =>
+    results.get(index) ?? { ...notification, status: 0, error: 'No response for this URL in the batch' }
+  );
+}
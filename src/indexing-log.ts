@@ -0,0 +1,197 @@
+/**
+ * Indexing API submission log
+ *
+ * The publish quota is small (200 URLs a day by default), so every
+ * notification sent is recorded with its outcome. bulkSubmitUrls uses the log
+ * to skip URLs already notified successfully with the same type in the last
+ * hours, and get_indexing_notifications to know which URLs to look up.
+ *
+ * Configuration:
+ * - GSC_INDEXING_DB: database path (default: ~/.local/share/mcp-gsc-multi-account/indexing.db)
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GscApiError } from './api-errors.js';
+import { BatchPartResult, MAX_BATCH_SIZE, NotificationType } from './indexing-batch.js';
+import { SearchConsoleService } from './search-console.js';
+
+export interface Submission {
+  accountId: string;
+  url: string;
+  type: NotificationType;
+  submittedAt: string;
+  status: number;
+  error: string | null;
+  notifyTime: string | null;
+}
+
+export interface BulkSubmitResult {
+  submitted: number;
+  succeeded: number;
+  failed: number;
+  // Already notified successfully within the dedupe window
+  duplicates: string[];
+  // Not sent because the daily publish quota ran out
+  skippedUrls: string[];
+  remainingQuota?: number;
+  results: BatchPartResult[];
+}
+
+export class SubmissionLog {
+  readonly file: string;
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.file = file;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS submissions (
+        account_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        type TEXT NOT NULL,
+        submitted_at TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        error TEXT,
+        notify_time TEXT
+      );
+      CREATE INDEX IF NOT EXISTS submissions_url ON submissions (url, type, submitted_at);
+    `);
+  }
+
+  /**
+   * Open the database at GSC_INDEXING_DB
+   */
+  static fromEnvironment(): SubmissionLog {
+    return new SubmissionLog(
+      process.env.GSC_INDEXING_DB ||
+        path.join(os.homedir(), '.local', 'share', 'mcp-gsc-multi-account', 'indexing.db')
+    );
+  }
+
+  /**
+   * Record notifications and their outcome
+   */
+  record(accountId: string, results: BatchPartResult[], submittedAt: Date = new Date()): void {
+    const insert = this.db.prepare('INSERT INTO submissions VALUES (?, ?, ?, ?, ?, ?, ?)');
+    this.db.transaction(() => {
+      for (const result of results) {
+        insert.run(
+          accountId, result.url, result.type, submittedAt.toISOString(),
+          result.status, result.error ?? null, result.notifyTime ?? null
+        );
+      }
+    })();
+  }
+
+  /**
+   * URLs notified successfully with this type since the given time, by any account
+   */
+  recentlySubmitted(urls: string[], type: NotificationType, since: Date): Set<string> {
+    const select = this.db.prepare(
+      'SELECT 1 FROM submissions WHERE url = ? AND type = ? AND submitted_at >= ? AND status BETWEEN 200 AND 299 LIMIT 1'
+    );
+    return new Set(urls.filter(url => select.get(url, type, since.toISOString()) !== undefined));
+  }
+
+  /**
+   * Latest submission of each URL, most recent first
+   */
+  latest(options: { accountId?: string; urls?: string[]; limit?: number } = {}): Submission[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (options.accountId) {
+      where.push('account_id = ?');
+      params.push(options.accountId);
+    }
+    if (options.urls) {
+      where.push(`url IN (${options.urls.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...options.urls);
+    }
+
+    // SQLite returns the other columns from the row holding MAX()
+    const rows = this.db.prepare(`
+      SELECT account_id, url, type, MAX(submitted_at) AS submitted_at, status, error, notify_time
+      FROM submissions
+      ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+      GROUP BY url
+      ORDER BY submitted_at DESC
+      LIMIT ?`
+    ).all(...params, options.limit ?? 100) as {
+      account_id: string; url: string; type: NotificationType; submitted_at: string;
+      status: number; error: string | null; notify_time: string | null;
+    }[];
+
+    return rows.map(row => ({
+      accountId: row.account_id,
+      url: row.url,
+      type: row.type,
+      submittedAt: row.submitted_at,
+      status: row.status,
+      error: row.error,
+      notifyTime: row.notify_time,
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Publish notifications for URLs in batches of 100, skipping recent
+ * duplicates and anything beyond the remaining daily publish quota
+ */
+export async function bulkSubmitUrls(
+  service: SearchConsoleService,
+  log: SubmissionLog,
+  urls: string[],
+  options: { accountId: string; type: NotificationType; dedupeHours: number; now?: Date }
+): Promise<BulkSubmitResult> {
+  const now = options.now ?? new Date();
+  const unique = [...new Set(urls)];
+  const recent = options.dedupeHours > 0
+    ? log.recentlySubmitted(unique, options.type, new Date(now.getTime() - options.dedupeHours * 3_600_000))
+    : new Set<string>();
+  const pending = unique.filter(url => !recent.has(url));
+
+  const budget = service.remainingQuota('indexingPublish', '*') ?? pending.length;
+  const skippedUrls = pending.slice(budget);
+  const results: BatchPartResult[] = [];
+
+  const toSend = pending.slice(0, budget);
+  for (let i = 0; i < toSend.length; i += MAX_BATCH_SIZE) {
+    const batch = toSend.slice(i, i + MAX_BATCH_SIZE).map(url => ({ url, type: options.type }));
+    let batchResults: BatchPartResult[];
+    try {
+      batchResults = await service.publishUrlNotificationsBatch(batch);
+    } catch (e) {
+      // Other tools can use the quota up midway; the rest is left for tomorrow
+      if (e instanceof GscApiError && e.kind === 'quota_exceeded') {
+        skippedUrls.unshift(...toSend.slice(i));
+        break;
+      }
+      // Keep the batches already sent: the failure is reported against this batch's URLs
+      const error = e instanceof Error ? e.message : String(e);
+      const status = e instanceof GscApiError ? e.status ?? 0 : 0;
+      batchResults = batch.map(notification => ({ ...notification, status, error }));
+    }
+    log.record(options.accountId, batchResults);
+    results.push(...batchResults);
+  }
+
+  const succeeded = results.filter(result => result.status >= 200 && result.status < 300).length;
+  return {
+    submitted: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    duplicates: unique.filter(url => recent.has(url)),
+    skippedUrls,
+    remainingQuota: service.remainingQuota('indexingPublish', '*'),
+    results,
+  };
+}
@@ -0,0 +1,335 @@
+/**
+ * OAuth consent flow for onboarding accounts
+ *
+ * Generates a consent URL with the Search Console and Indexing scopes, then
+ * receives the authorization code either through a loopback redirect listener
+ * (http://127.0.0.1:<port>/oauth2callback) or as a code / redirect URL pasted
+ * by the user. The code is exchanged for tokens (with PKCE) and the account
+ * email is read from the returned ID token.
+ *
+ * Google endpoints can be overridden to point at a local stand-in:
+ * - GOOGLE_OAUTH_AUTH_URL: consent page base URL
+ * - GOOGLE_OAUTH_TOKEN_URL: token endpoint
+ * - GOOGLE_OAUTH_TOKENINFO_URL: token info endpoint
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CodeChallengeMethod, OAuth2Client, OAuth2ClientOptions } from 'google-auth-library';
+
+// Scopes needed by the Search Console and Indexing APIs
+export const GSC_SCOPES = [
+  'https://www.googleapis.com/auth/webmasters',
+  'https://www.googleapis.com/auth/indexing',
+];
+
+// OpenID scopes are added so the account email can be discovered
+export const AUTHORIZATION_SCOPES = [...GSC_SCOPES, 'openid', 'email'];
+
+const CALLBACK_PATH = '/oauth2callback';
+const MANUAL_REDIRECT_URI = 'http://localhost';
+// Pending authorizations are dropped after this long
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+export type AuthorizationMode = 'loopback' | 'manual';
+
+export interface StartedAuthorization {
+  authorizationId: string;
+  authUrl: string;
+  redirectUri: string;
+  mode: AuthorizationMode;
+  expiresAt: string;
+}
+
+export interface CompletedAuthorization {
+  accountId?: string;
+  // Set when the authorization used its own OAuth client
+  clientId?: string;
+  clientSecret?: string;
+  email: string;
+  refreshToken: string;
+  accessToken?: string;
+  expiresAt?: number;
+  scopes: string[];
+}
+
+interface PendingAuthorization {
+  accountId?: string;
+  customClient?: { clientId: string; clientSecret: string };
+  mode: AuthorizationMode;
+  client: OAuth2Client;
+  redirectUri: string;
+  codeVerifier: string;
+  expiresAt: number;
+  server?: http.Server;
+  // Settled by the loopback listener
+  callback?: Promise<string>;
+}
+
+/**
+ * Google OAuth endpoint overrides from the environment
+ */
+export function getOAuthEndpoints(): NonNullable<OAuth2ClientOptions['endpoints']> {
+  const endpoints: NonNullable<OAuth2ClientOptions['endpoints']> = {};
+  if (process.env.GOOGLE_OAUTH_AUTH_URL) endpoints.oauth2AuthBaseUrl = process.env.GOOGLE_OAUTH_AUTH_URL;
+  if (process.env.GOOGLE_OAUTH_TOKEN_URL) endpoints.oauth2TokenUrl = process.env.GOOGLE_OAUTH_TOKEN_URL;
+  if (process.env.GOOGLE_OAUTH_TOKENINFO_URL) endpoints.tokenInfoUrl = process.env.GOOGLE_OAUTH_TOKENINFO_URL;
+  return endpoints;
+}
+
+/**
+ * Extract the authorization code from a pasted code or full redirect URL
+ */
+function parsePastedCode(input: string, expectedState: string): string {
+  const trimmed = input.trim();
+  if (!/^https?:\/\//.test(trimmed)) {
+    return trimmed;
+  }
+
+  const params = new URL(trimmed).searchParams;
+  if (params.get('error')) {
+    throw new Error(`Authorization denied: ${params.get('error')}`);
+  }
+  if (params.get('state') && params.get('state') !== expectedState) {
+    throw new Error('Redirect URL does not belong to this authorization (state mismatch)');
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('No authorization code found in the pasted URL');
+  }
+  return code;
+}
+
+/**
+ * Read the email claim from an ID token received directly from the token endpoint
+ */
+function emailFromIdToken(idToken: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf-8'));
+    return typeof payload.email === 'string' ? payload.email : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class AuthorizationFlow {
+  private pending: Map<string, PendingAuthorization> = new Map();
+  private clientId?: string;
+  private clientSecret?: string;
+
+  constructor(clientId?: string, clientSecret?: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  /**
+   * Start an authorization and return the consent URL to open
+   */
+  async start(options: {
+    accountId?: string;
+    mode?: AuthorizationMode;
+    port?: number;
+    // Use another OAuth client than the default one
+    clientId?: string;
+    clientSecret?: string;
+  } = {}): Promise<StartedAuthorization> {
+    this.pruneExpired();
+
+    if (Boolean(options.clientId) !== Boolean(options.clientSecret)) {
+      throw new Error('clientId and clientSecret must be provided together');
+    }
+    const customClient = options.clientId && options.clientSecret
+      ? { clientId: options.clientId, clientSecret: options.clientSecret }
+      : undefined;
+    const clientId = customClient?.clientId || this.clientId;
+    const clientSecret = customClient?.clientSecret || this.clientSecret;
+    if (!clientId || !clientSecret) {
+      throw new Error('An OAuth client is required: pass clientId/clientSecret or set GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET');
+    }
+
+    const mode = options.mode || 'loopback';
+    const authorizationId = crypto.randomBytes(16).toString('hex');
+    const client = new OAuth2Client({
+      clientId,
+      clientSecret,
+      endpoints: getOAuthEndpoints(),
+    });
+    const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+
+    const pending: PendingAuthorization = {
+      accountId: options.accountId,
+      customClient,
+      mode,
+      client,
+      redirectUri: MANUAL_REDIRECT_URI,
+      codeVerifier,
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+    };
+
+    if (mode === 'loopback') {
+      await this.listen(pending, authorizationId, options.port || 0);
+    }
+
+    const authUrl = client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: AUTHORIZATION_SCOPES,
+      state: authorizationId,
+      redirect_uri: pending.redirectUri,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    this.pending.set(authorizationId, pending);
+
+    return {
+      authorizationId,
+      authUrl,
+      redirectUri: pending.redirectUri,
+      mode,
+      expiresAt: new Date(pending.expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Complete an authorization with a pasted code, or by waiting for the loopback redirect
+   */
+  async complete(
+    authorizationId: string,
+    options: { code?: string; waitSeconds?: number } = {}
+  ): Promise<CompletedAuthorization> {
+    const pending = this.pending.get(authorizationId);
+    if (!pending || pending.expiresAt < Date.now()) {
+      this.cancel(authorizationId);
+      throw new Error(`Authorization not found or expired: ${authorizationId}`);
+    }
+
+    let code: string;
+    if (options.code) {
+      code = parsePastedCode(options.code, authorizationId);
+    } else if (pending.callback) {
+      // On timeout the authorization stays pending so the caller can wait again
+      const received = await this.waitForCallback(pending.callback, (options.waitSeconds ?? 120) * 1000)
+        .catch(e => {
+          this.cancel(authorizationId);
+          throw e;
+        });
+      if (received === undefined) {
+        throw new Error('Timed out waiting for the browser redirect. Call again to keep waiting, or paste the code');
+      }
+      code = received;
+    } else {
+      throw new Error('A code is required to complete a manual authorization');
+    }
+
+    try {
+      const { tokens } = await pending.client.getToken({
+        code,
+        codeVerifier: pending.codeVerifier,
+        redirect_uri: pending.redirectUri,
+      });
+
+      if (!tokens.refresh_token) {
+        throw new Error('No refresh token returned. Revoke the app access in your Google account and try again');
+      }
+
+      let email = tokens.id_token ? emailFromIdToken(tokens.id_token) : undefined;
+      if (!email && tokens.access_token) {
+        email = (await pending.client.getTokenInfo(tokens.access_token)).email;
+      }
+      if (!email) {
+        throw new Error('Could not determine the account email (is the "email" scope granted?)');
+      }
+
+      return {
+        accountId: pending.accountId,
+        ...pending.customClient,
+        email,
+        refreshToken: tokens.refresh_token,
+        accessToken: tokens.access_token || undefined,
+        expiresAt: tokens.expiry_date || undefined,
+        scopes: tokens.scope ? tokens.scope.split(' ') : AUTHORIZATION_SCOPES,
+      };
+    } finally {
+      this.cancel(authorizationId);
+    }
+  }
+
+  /**
+   * Drop a pending authorization and stop its listener
+   */
+  cancel(authorizationId: string): void {
+    const pending = this.pending.get(authorizationId);
+    pending?.server?.close();
+    this.pending.delete(authorizationId);
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, pending] of this.pending) {
+      if (pending.expiresAt < now) this.cancel(id);
+    }
+  }
+
+  /**
+   * Wait for the loopback code, resolving undefined on timeout
+   */
+  private async waitForCallback(callback: Promise<string>, timeoutMs: number): Promise<string | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), timeoutMs);
+    });
+    try {
+      return await Promise.race([callback, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Start the loopback redirect listener for a pending authorization
+   */
+  private async listen(pending: PendingAuthorization, state: string, port: number): Promise<void> {
+    const server = http.createServer();
+
+    pending.callback = new Promise<string>((resolve, reject) => {
+      server.on('request', (req, res) => {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+        if (url.pathname !== CALLBACK_PATH) {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        if (url.searchParams.get('state') !== state || (!code && !error)) {
+          res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Invalid authorization response');
+          return;
+        }
+
+        if (error) {
+          res.writeHead(200, { 'Content-Type': 'text/plain' }).end(`Authorization failed: ${error}`);
+          reject(new Error(`Authorization denied: ${error}`));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/plain' })
+            .end('Authorization complete. You can close this window.');
+          resolve(code!);
+        }
+        server.close();
+      });
+    });
+    // Avoid unhandled rejections when nobody is waiting yet
+    pending.callback.catch(() => undefined);
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    server.unref();
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    pending.server = server;
+    pending.redirectUri = `http://127.0.0.1:${boundPort}${CALLBACK_PATH}`;
+  }
+}
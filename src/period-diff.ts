@@ -0,0 +1,183 @@
+/**
+ * Row-level diff of two search analytics periods
+ *
+ * Rows are matched on their keys over the union of both periods, so rows
+ * that disappeared are reported as well as new ones. Each key is classified
+ * by its click change, and the net click change is split between the
+ * categories (their contributions add up to it).
+ */
+
+import type { webmasters_v3 } from 'googleapis';
+
+type SearchAnalyticsRow = webmasters_v3.Schema$ApiDataRow;
+
+export type RowStatus = 'new' | 'lost' | 'improved' | 'declined' | 'stable';
+export type DiffMetric = 'clicks' | 'impressions' | 'ctr' | 'position';
+
+export interface PeriodMetrics {
+  clicks: number;
+  impressions: number;
+  // Percent
+  ctr: number;
+  position: number;
+}
+
+export interface RowDiff {
+  keys: string[];
+  status: RowStatus;
+  // null when the row is absent from the period
+  current: PeriodMetrics | null;
+  previous: PeriodMetrics | null;
+  change: {
+    clicks: number;
+    clicksPercent: number | null;
+    impressions: number;
+    // Positive = improved; null unless the row is in both periods
+    position: number | null;
+    ctr: number | null;
+  };
+}
+
+export interface StatusAttribution {
+  rows: number;
+  currentClicks: number;
+  previousClicks: number;
+  clicksChange: number;
+  // Share of the net click change, in percent (null when the net change is 0)
+  shareOfChange: number | null;
+}
+
+export interface PeriodDiff {
+  byStatus: Record<RowStatus, StatusAttribution>;
+  winners: Record<DiffMetric, RowDiff[]>;
+  losers: Record<DiffMetric, RowDiff[]>;
+}
+
+export interface DiffOptions {
+  // Rows per winner/loser list
+  limit: number;
+  // Click change, in percent of the previous clicks, within which a row is stable
+  stablePercent: number;
+}
+
+const STATUSES: RowStatus[] = ['new', 'lost', 'improved', 'declined', 'stable'];
+const METRICS: DiffMetric[] = ['clicks', 'impressions', 'ctr', 'position'];
+
+function metricsOf(row: SearchAnalyticsRow | undefined): PeriodMetrics | null {
+  if (!row) return null;
+  return {
+    clicks: row.clicks || 0,
+    impressions: row.impressions || 0,
+    ctr: Number(((row.ctr || 0) * 100).toFixed(2)),
+    position: Number((row.position || 0).toFixed(1)),
+  };
+}
+
+function classify(current: PeriodMetrics | null, previous: PeriodMetrics | null, stablePercent: number): RowStatus {
+  if (!previous) return 'new';
+  if (!current) return 'lost';
+  const change = current.clicks - previous.clicks;
+  // A click or two either way is noise, whatever the percentage
+  if (Math.abs(change) <= Math.max(1, (previous.clicks * stablePercent) / 100)) return 'stable';
+  return change > 0 ? 'improved' : 'declined';
+}
+
+function diffRow(
+  keys: string[],
+  currentRow: SearchAnalyticsRow | undefined,
+  previousRow: SearchAnalyticsRow | undefined,
+  stablePercent: number
+): RowDiff {
+  const current = metricsOf(currentRow);
+  const previous = metricsOf(previousRow);
+  const currentClicks = current?.clicks ?? 0;
+  const previousClicks = previous?.clicks ?? 0;
+  const both = current && previous;
+
+  return {
+    keys,
+    status: classify(current, previous, stablePercent),
+    current,
+    previous,
+    change: {
+      clicks: currentClicks - previousClicks,
+      clicksPercent: previousClicks > 0
+        ? Number((((currentClicks - previousClicks) / previousClicks) * 100).toFixed(1))
+        : null,
+      impressions: (current?.impressions ?? 0) - (previous?.impressions ?? 0),
+      position: both ? Number((previous.position - current.position).toFixed(1)) : null,
+      ctr: both ? Number((current.ctr - previous.ctr).toFixed(2)) : null,
+    },
+  };
+}
+
+/**
+ * Ranking score of a row for a metric, positive when it improved. CTR and
+ * position changes only count for rows in both periods and are weighted by
+ * impressions, so a row seen a handful of times doesn't top the list.
+ */
+function score(row: RowDiff, metric: DiffMetric): number | undefined {
+  switch (metric) {
+    case 'clicks':
+      return row.change.clicks;
+    case 'impressions':
+      return row.change.impressions;
+    case 'ctr':
+      return row.change.ctr === null ? undefined : row.change.ctr * row.current!.impressions;
+    case 'position':
+      return row.change.position === null ? undefined : row.change.position * row.current!.impressions;
+  }
+}
+
+/**
+ * Match the rows of two periods and rank what changed
+ */
+export function diffPeriods(
+  currentRows: SearchAnalyticsRow[],
+  previousRows: SearchAnalyticsRow[],
+  options: DiffOptions
+): PeriodDiff {
+  const keyOf = (row: SearchAnalyticsRow) => JSON.stringify(row.keys || []);
+  const current = new Map(currentRows.map(row => [keyOf(row), row]));
+  const previous = new Map(previousRows.map(row => [keyOf(row), row]));
+
+  const rows: RowDiff[] = [];
+  for (const key of new Set([...current.keys(), ...previous.keys()])) {
+    rows.push(diffRow(JSON.parse(key), current.get(key), previous.get(key), options.stablePercent));
+  }
+
+  const netChange = rows.reduce((sum, row) => sum + row.change.clicks, 0);
+  const byStatus = Object.fromEntries(STATUSES.map(status => {
+    const matching = rows.filter(row => row.status === status);
+    const currentClicks = matching.reduce((sum, row) => sum + (row.current?.clicks ?? 0), 0);
+    const previousClicks = matching.reduce((sum, row) => sum + (row.previous?.clicks ?? 0), 0);
+    const clicksChange = currentClicks - previousClicks;
+    return [status, {
+      rows: matching.length,
+      currentClicks,
+      previousClicks,
+      clicksChange,
+      shareOfChange: netChange !== 0 ? Number(((clicksChange / netChange) * 100).toFixed(1)) : null,
+    }];
+  })) as Record<RowStatus, StatusAttribution>;
+
+  const winners = {} as Record<DiffMetric, RowDiff[]>;
+  const losers = {} as Record<DiffMetric, RowDiff[]>;
+  for (const metric of METRICS) {
+    const scored = rows
+      .map(row => ({ row, score: score(row, metric) }))
+      .filter((entry): entry is { row: RowDiff; score: number } => entry.score !== undefined && entry.score !== 0);
+    winners[metric] = scored
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit)
+      .map(entry => entry.row);
+    losers[metric] = scored
+      .filter(entry => entry.score < 0)
+      .sort((a, b) => a.score - b.score)
+      .slice(0, options.limit)
+      .map(entry => entry.row);
+  }
+
+  return { byStatus, winners, losers };
+}
@@ -0,0 +1,231 @@
+/**
+ * Cross-account portfolio overview
+ *
+ * Every property visible to at least one account (from the site index) is
+ * reported once, queried through the account with the highest permission on
+ * it; when that account fails (revoked token, lost access), the next one is
+ * tried. Each property gets its totals for the current and previous periods,
+ * and large drops are flagged. A property covered by another reported
+ * property (the domain property of its host or of a parent domain, or a
+ * shorter URL prefix) shares its traffic, so it is marked with coveredBy and
+ * left out of the portfolio totals. Accounts whose sites could not be listed and properties that could
+ * not be queried are reported instead of failing the whole overview.
+ */
+
+import { mapWithConcurrency } from './concurrency.js';
+import type { SiteIndex } from './accounts.js';
+import type { SearchConsoleService } from './search-console.js';
+import { isSameOrSubdomain, matchSite, rankSiteCandidates } from './site-routing.js';
+
+export type PortfolioSort = 'clicks' | 'impressions' | 'clicksChange' | 'clicksChangePercent';
+
+export interface PortfolioMetrics {
+  clicks: number;
+  impressions: number;
+  // Percent
+  ctr: number;
+  position: number;
+}
+
+export interface PortfolioSite {
+  siteUrl: string;
+  // Account the figures were queried with
+  account: string;
+  permissionLevel: string;
+  // Every account that can see the property
+  visibleTo: string[];
+  current: PortfolioMetrics;
+  previous: PortfolioMetrics;
+  change: {
+    clicks: number;
+    clicksPercent: number | null;
+    impressions: number;
+    impressionsPercent: number | null;
+    ctr: number;
+    // Positive = improved
+    position: number;
+  };
+  flags: ('clicks_drop' | 'impressions_drop')[];
+  // Reported property whose data includes this one's, if any
+  coveredBy?: string;
+}
+
+export interface PortfolioOptions {
+  current: { start: string; end: string };
+  previous: { start: string; end: string };
+  searchType: string;
+  // Decrease, in percent, from which a metric is flagged
+  dropThreshold: number;
+  // Previous-period clicks a site needs to be flagged, so tiny sites don't raise noise
+  minClicks: number;
+  sortBy: PortfolioSort;
+  concurrency: number;
+}
+
+export interface PortfolioOverview {
+  sites: PortfolioSite[];
+  // Sums over the sites not covered by another one
+  totals: { current: PortfolioMetrics; previous: PortfolioMetrics; clicksChangePercent: number | null };
+  // Properties only visible unverified, which can't be queried
+  unverified: string[];
+  errors: {
+    accounts: SiteIndex['errors'];
+    sites: { siteUrl: string; errors: { account: string; error: string }[] }[];
+  };
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous > 0 ? Number((((current - previous) / previous) * 100).toFixed(1)) : null;
+}
+
+async function totals(
+  service: SearchConsoleService,
+  siteUrl: string,
+  range: { start: string; end: string },
+  searchType: string
+): Promise<PortfolioMetrics> {
+  const result = await service.searchAnalytics(siteUrl, {
+    startDate: range.start,
+    endDate: range.end,
+    searchType,
+    dataState: 'all',
+  }, {});
+  const row = result.data.rows?.[0];
+  return {
+    clicks: row?.clicks || 0,
+    impressions: row?.impressions || 0,
+    ctr: Number(((row?.ctr || 0) * 100).toFixed(2)),
+    position: Number((row?.position || 0).toFixed(1)),
+  };
+}
+
+function sumMetrics(metrics: PortfolioMetrics[]): PortfolioMetrics {
+  let clicks = 0;
+  let impressions = 0;
+  let positionSum = 0;
+  for (const m of metrics) {
+    clicks += m.clicks;
+    impressions += m.impressions;
+    positionSum += m.position * m.impressions;
+  }
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? Number(((clicks / impressions) * 100).toFixed(2)) : 0,
+    position: impressions > 0 ? Number((positionSum / impressions).toFixed(1)) : 0,
+  };
+}
+
+function portfolioTotals(sites: PortfolioSite[]): PortfolioOverview['totals'] {
+  const current = sumMetrics(sites.map(site => site.current));
+  const previous = sumMetrics(sites.map(site => site.previous));
+  return { current, previous, clicksChangePercent: percentChange(current.clicks, previous.clicks) };
+}
+
+/**
+ * How another property's data includes a property's: as a domain property of
+ * its host or of a parent domain, or as a shorter URL prefix
+ */
+function coveredAs(siteUrl: string, other: string): 'domain' | 'prefix' | undefined {
+  if (siteUrl.startsWith('sc-domain:')) {
+    if (!other.startsWith('sc-domain:')) return undefined;
+    const domain = siteUrl.slice('sc-domain:'.length).toLowerCase();
+    const otherDomain = other.slice('sc-domain:'.length).toLowerCase();
+    return domain !== otherDomain && isSameOrSubdomain(domain, otherDomain) ? 'domain' : undefined;
+  }
+  const match = matchSite(siteUrl, other);
+  return match === 'domain' || match === 'prefix' ? match : undefined;
+}
+
+function sortValue(site: PortfolioSite, sortBy: PortfolioSort): number {
+  switch (sortBy) {
+    case 'clicks':
+      return site.current.clicks;
+    case 'impressions':
+      return site.current.impressions;
+    // Biggest losses first
+    case 'clicksChange':
+      return -site.change.clicks;
+    case 'clicksChangePercent':
+      return -(site.change.clicksPercent ?? Infinity);
+  }
+}
+
+/**
+ * Totals and period change of every property in the site index
+ */
+export async function portfolioOverview(
+  index: SiteIndex,
+  serviceFor: (accountId: string) => Promise<SearchConsoleService>,
+  options: PortfolioOptions
+): Promise<PortfolioOverview> {
+  const properties = [...new Set(index.entries.map(entry => entry.siteUrl))];
+  // Only the exact property: a domain property isn't a stand-in for its URL-prefix properties
+  const candidatesOf = (siteUrl: string) =>
+    rankSiteCandidates(siteUrl, index.entries).filter(candidate => candidate.match === 'exact');
+  const queryable = properties.filter(siteUrl => candidatesOf(siteUrl).length > 0);
+
+  const siteErrors: PortfolioOverview['errors']['sites'] = [];
+  const results = await mapWithConcurrency(queryable, options.concurrency, async siteUrl => {
+    const candidates = candidatesOf(siteUrl);
+    const errors: { account: string; error: string }[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        const service = await serviceFor(candidate.accountId);
+        const [current, previous] = await Promise.all([
+          totals(service, siteUrl, options.current, options.searchType),
+          totals(service, siteUrl, options.previous, options.searchType),
+        ]);
+
+        const site: PortfolioSite = {
+          siteUrl,
+          account: candidate.email,
+          permissionLevel: candidate.permissionLevel,
+          visibleTo: candidates.map(c => c.email),
+          current,
+          previous,
+          change: {
+            clicks: current.clicks - previous.clicks,
+            clicksPercent: percentChange(current.clicks, previous.clicks),
+            impressions: current.impressions - previous.impressions,
+            impressionsPercent: percentChange(current.impressions, previous.impressions),
+            ctr: Number((current.ctr - previous.ctr).toFixed(2)),
+            position: Number((previous.position - current.position).toFixed(1)),
+          },
+          flags: [],
+        };
+        if (previous.clicks >= options.minClicks) {
+          if ((site.change.clicksPercent ?? 0) <= -options.dropThreshold) site.flags.push('clicks_drop');
+          if ((site.change.impressionsPercent ?? 0) <= -options.dropThreshold) site.flags.push('impressions_drop');
+        }
+        return site;
+      } catch (e) {
+        errors.push({ account: candidate.email, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    siteErrors.push({ siteUrl, errors });
+    return undefined;
+  });
+
+  const sites = results
+    .filter((site): site is PortfolioSite => site !== undefined)
+    .sort((a, b) => sortValue(b, options.sortBy) - sortValue(a, options.sortBy) || a.siteUrl.localeCompare(b.siteUrl));
+
+  // Prefer a covering domain property, then the shortest covering URL prefix
+  for (const site of sites) {
+    const covering = sites
+      .map(other => ({ siteUrl: other.siteUrl, match: other === site ? undefined : coveredAs(site.siteUrl, other.siteUrl) }))
+      .filter(other => other.match !== undefined)
+      .sort((a, b) => Number(a.match === 'prefix') - Number(b.match === 'prefix') || a.siteUrl.length - b.siteUrl.length);
+    if (covering.length > 0) site.coveredBy = covering[0].siteUrl;
+  }
+
+  return {
+    sites,
+    totals: portfolioTotals(sites.filter(site => !site.coveredBy)),
+    unverified: properties.filter(siteUrl => !queryable.includes(siteUrl)),
+    errors: { accounts: index.errors, sites: siteErrors },
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Branded / non-branded query segmentation and topic clustering
+ *
+ * Queries matching one of the site's brand regexes are branded. The others
+ * are grouped greedily by shared n-grams: the n-gram shared by the most
+ * impressions (among those found in enough queries) forms a cluster with
+ * every query still unassigned that contains it, and so on until no n-gram
+ * qualifies. What is left is reported as "other".
+ */
+
+import type { webmasters_v3 } from 'googleapis';
+
+type SearchAnalyticsRow = webmasters_v3.Schema$ApiDataRow;
+
+// Words that carry no topic on their own (English and French)
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'near', 'of', 'on', 'or', 'the', 'to', 'vs', 'what', 'when', 'where', 'which', 'who', 'why',
+  'with', 'you', 'your',
+  'au', 'aux', 'avec', 'ce', 'comment', 'dans', 'de', 'des', 'du', 'en', 'et', 'la', 'le', 'les', 'ou', 'par',
+  'pour', 'quel', 'quelle', 'qui', 'sur', 'un', 'une',
+]);
+// Queries listed per cluster
+const TOP_QUERIES = 5;
+
+export interface SegmentMetrics {
+  queries: number;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface QueryCluster extends SegmentMetrics {
+  label: string;
+  topQueries: string[];
+}
+
+export interface QuerySegmentation {
+  branded: SegmentMetrics;
+  nonBranded: SegmentMetrics;
+  clusters: QueryCluster[];
+  // Non-branded queries in no cluster
+  other: SegmentMetrics;
+}
+
+export interface ClusterOptions {
+  maxClusters: number;
+  // Queries an n-gram must appear in to form a cluster
+  minClusterSize: number;
+}
+
+/**
+ * Compile brand terms into case-insensitive regexes
+ */
+export function brandPatterns(terms: string[] = []): RegExp[] {
+  return terms.map(term => new RegExp(term, 'i'));
+}
+
+export function isBranded(query: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(query));
+}
+
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Unigrams and bigrams of a query's significant tokens
+ */
+function ngrams(query: string): Set<string> {
+  const tokens = tokenize(query);
+  const grams = new Set(tokens);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    grams.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return grams;
+}
+
+/**
+ * Sum metrics over rows, with CTR recomputed and position weighted by impressions
+ */
+export function summarize(rows: SearchAnalyticsRow[]): SegmentMetrics {
+  let clicks = 0;
+  let impressions = 0;
+  let positionSum = 0;
+  for (const row of rows) {
+    clicks += row.clicks || 0;
+    impressions += row.impressions || 0;
+    positionSum += (row.position || 0) * (row.impressions || 0);
+  }
+  return {
+    queries: rows.length,
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? Number((clicks / impressions).toFixed(4)) : 0,
+    position: impressions > 0 ? Number((positionSum / impressions).toFixed(2)) : 0,
+  };
+}
+
+/**
+ * Greedily pick the n-grams that define clusters
+ */
+function pickClusterLabels(rows: SearchAnalyticsRow[], options: ClusterOptions): string[] {
+  const grams = rows.map(row => ngrams(row.keys?.[0] || ''));
+  const assigned = new Array(rows.length).fill(false);
+  const labels: string[] = [];
+
+  while (labels.length < options.maxClusters) {
+    const support = new Map<string, { queries: number; impressions: number }>();
+    rows.forEach((row, i) => {
+      if (assigned[i]) return;
+      for (const gram of grams[i]) {
+        const entry = support.get(gram) || { queries: 0, impressions: 0 };
+        entry.queries++;
+        entry.impressions += row.impressions || 0;
+        support.set(gram, entry);
+      }
+    });
+
+    // Bigrams are more specific: prefer them over a unigram of similar weight
+    let best: { gram: string; score: number } | undefined;
+    for (const [gram, entry] of support) {
+      if (entry.queries < options.minClusterSize) continue;
+      const score = entry.impressions * (gram.includes(' ') ? 1.5 : 1);
+      if (!best || score > best.score || (score === best.score && gram < best.gram)) {
+        best = { gram, score };
+      }
+    }
+    if (!best) break;
+
+    labels.push(best.gram);
+    grams.forEach((set, i) => {
+      if (set.has(best!.gram)) assigned[i] = true;
+    });
+  }
+  return labels;
+}
+
+/**
+ * Cluster of a query: the first label it contains, in label order
+ */
+function clusterOf(query: string, labels: string[]): string | undefined {
+  const grams = ngrams(query);
+  return labels.find(label => grams.has(label));
+}
+
+/**
+ * Split query rows into branded / non-branded and cluster the non-branded
+ * ones. Pass the labels of another segmentation to reuse its clusters (for
+ * period comparisons).
+ */
+export function segmentQueries(
+  rows: SearchAnalyticsRow[],
+  patterns: RegExp[],
+  options: ClusterOptions,
+  labels?: string[]
+): QuerySegmentation & { labels: string[] } {
+  const branded: SearchAnalyticsRow[] = [];
+  const nonBranded: SearchAnalyticsRow[] = [];
+  for (const row of rows) {
+    (isBranded(row.keys?.[0] || '', patterns) ? branded : nonBranded).push(row);
+  }
+
+  const clusterLabels = labels ?? pickClusterLabels(nonBranded, options);
+  const byCluster = new Map<string, SearchAnalyticsRow[]>(clusterLabels.map(label => [label, []]));
+  const other: SearchAnalyticsRow[] = [];
+  for (const row of nonBranded) {
+    const label = clusterOf(row.keys?.[0] || '', clusterLabels);
+    if (label) byCluster.get(label)!.push(row);
+    else other.push(row);
+  }
+
+  return {
+    labels: clusterLabels,
+    branded: summarize(branded),
+    nonBranded: summarize(nonBranded),
+    clusters: [...byCluster].map(([label, clusterRows]) => ({
+      label,
+      ...summarize(clusterRows),
+      topQueries: [...clusterRows]
+        .sort((a, b) => (b.clicks || 0) - (a.clicks || 0) || (b.impressions || 0) - (a.impressions || 0))
+        .slice(0, TOP_QUERIES)
+        .map(row => row.keys?.[0] || ''),
+    })),
+    other: summarize(other),
+  };
+}
+
+export interface SegmentChange {
+  current: SegmentMetrics;
+  previous: SegmentMetrics;
+  change: { clicks: number; impressions: number; ctr: number; position: number };
+  clicksChangePercent: number | null;
+}
+
+function diff(current: SegmentMetrics, previous: SegmentMetrics): SegmentChange {
+  return {
+    current,
+    previous,
+    change: {
+      clicks: current.clicks - previous.clicks,
+      impressions: current.impressions - previous.impressions,
+      ctr: Number((current.ctr - previous.ctr).toFixed(4)),
+      position: Number((current.position - previous.position).toFixed(2)),
+    },
+    clicksChangePercent: previous.clicks > 0
+      ? Number((((current.clicks - previous.clicks) / previous.clicks) * 100).toFixed(1))
+      : null,
+  };
+}
+
+function withoutLabel(metrics: SegmentMetrics | QueryCluster): SegmentMetrics {
+  const { queries, clicks, impressions, ctr, position } = metrics;
+  return { queries, clicks, impressions, ctr, position };
+}
+
+/**
+ * Compare two segmentations built with the same cluster labels
+ */
+export function compareSegmentations(current: QuerySegmentation, previous: QuerySegmentation) {
+  const previousClusters = new Map(previous.clusters.map(cluster => [cluster.label, cluster]));
+  return {
+    branded: diff(current.branded, previous.branded),
+    nonBranded: diff(current.nonBranded, previous.nonBranded),
+    clusters: current.clusters.map(cluster => ({
+      label: cluster.label,
+      topQueries: cluster.topQueries,
+      ...diff(withoutLabel(cluster), withoutLabel(previousClusters.get(cluster.label) ?? summarize([]))),
+    })),
+    other: diff(current.other, previous.other),
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Quota ledger and client-side rate limiting
+ *
+ * Google enforces per-minute and per-day limits on each API, per property,
+ * per account or per Google Cloud project. Project-scoped counters are keyed
+ * by the project the calls are billed to (the OAuth client ID, or the
+ * project of a service account), so every account authorized through the
+ * same client shares them; without a project they fall back to the account.
+ *
+ * The ledger counts the calls sent by every account, throttles them with a
+ * token bucket per limit so bursts stay under the per-minute quota, and
+ * refuses calls once a daily quota is used up instead of letting Google
+ * reject them. Each attempt of a retried call is counted, since each one is
+ * a request Google receives.
+ *
+ * Daily counters reset at midnight Pacific time, like Google's, and are
+ * persisted so they survive restarts. Processes sharing the file add their
+ * own calls to what is on disk rather than overwriting it, under a lock file
+ * so concurrent writes don't lose each other's counts. Calls not yet written
+ * when the day changes are written under their own day first.
+ *
+ * Configuration:
+ * - GSC_QUOTA_FILE: counters file (default: ~/.local/share/mcp-gsc-multi-account/quota.json)
+ * - GSC_QUOTA_LIMITS: JSON overrides, e.g. {"indexingPublish":{"perDay":400}}
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withFileLock, withFileLockSync } from './file-lock.js';
+import { gscToday } from './schemas.js';
+
+export type QuotaApi = 'searchAnalytics' | 'urlInspection' | 'indexingPublish' | 'indexingMetadata';
+
+export interface QuotaLimit {
+  perMinute: number;
+  perDay?: number;
+  // Whether the limit applies per property, to the whole account, or to every
+  // account of the same Google Cloud project
+  scope: 'property' | 'account' | 'project';
+}
+
+// https://developers.google.com/webmaster-tools/limits
+// https://developers.google.com/search/apis/indexing-api/v3/quota-pricing
+export const DEFAULT_QUOTA_LIMITS: Record<QuotaApi, QuotaLimit> = {
+  searchAnalytics: { perMinute: 1200, scope: 'property' },
+  urlInspection: { perMinute: 600, perDay: 2000, scope: 'property' },
+  indexingPublish: { perMinute: 380, perDay: 200, scope: 'project' },
+  indexingMetadata: { perMinute: 180, scope: 'account' },
+};
+
+// A bucket holds this share of the per-minute limit, so a full minute's
+// budget can't be spent in a single burst
+const BUCKET_CAPACITY_RATIO = 0.1;
+const PERSIST_DELAY_MS = 1000;
+
+// Property key for account- and project-scoped limits
+const ALL_PROPERTIES = '*';
+// Prefix of the owner of project-scoped counters
+const PROJECT_PREFIX = 'project:';
+
+export class QuotaExhaustedError extends Error {
+  constructor(
+    readonly api: QuotaApi,
+    readonly property: string,
+    readonly limit: number
+  ) {
+    super(
+      `Daily ${api} quota of ${limit} requests${property === ALL_PROPERTIES ? '' : ` for ${property}`} is used up; it resets at midnight Pacific time`
+    );
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export interface QuotaUsage {
+  accountId: string;
+  api: QuotaApi;
+  property: string;
+  usedToday: number;
+  dailyLimit?: number;
+  remainingToday?: number;
+  perMinuteLimit: number;
+  // Requests that can be sent right now without waiting
+  availableNow: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QuotaFile {
+  day: string;
+  counters: { accountId: string; api: QuotaApi; property: string; count: number }[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function counterKey(accountId: string, api: QuotaApi, property: string): string {
+  return JSON.stringify([accountId, api, property]);
+}
+
+export class QuotaLedger {
+  private limits: Record<QuotaApi, QuotaLimit>;
+  private file?: string;
+  private day: string;
+  private counts: Map<string, number> = new Map();
+  // Calls not yet written to the file
+  private pending: Map<string, number> = new Map();
+  private buckets: Map<string, Bucket> = new Map();
+  private persistTimer?: NodeJS.Timeout;
+
+  constructor(options: { file?: string; limits?: Partial<Record<QuotaApi, Partial<QuotaLimit>>> } = {}) {
+    this.file = options.file;
+    this.limits = { ...DEFAULT_QUOTA_LIMITS };
+    for (const [api, override] of Object.entries(options.limits || {}) as [QuotaApi, Partial<QuotaLimit>][]) {
+      if (api in DEFAULT_QUOTA_LIMITS) {
+        if (override.scope !== undefined && !['property', 'account', 'project'].includes(override.scope)) {
+          throw new Error(`Invalid quota scope for ${api}: ${override.scope} (expected property, account or project)`);
+        }
+        this.limits[api] = { ...DEFAULT_QUOTA_LIMITS[api], ...override };
+      }
+    }
+
+    this.day = gscToday();
+    if (this.file) {
+      for (const [key, count] of this.readFile().counts) {
+        this.counts.set(key, count);
+      }
+      process.on('exit', () => this.persist());
+    }
+  }
+
+  /**
+   * Create the ledger from GSC_QUOTA_FILE and GSC_QUOTA_LIMITS
+   */
+  static fromEnvironment(): QuotaLedger {
+    const limits = process.env.GSC_QUOTA_LIMITS;
+    let parsed: Partial<Record<QuotaApi, Partial<QuotaLimit>>> | undefined;
+    try {
+      parsed = limits ? JSON.parse(limits) : undefined;
+    } catch (e) {
+      throw new Error(`GSC_QUOTA_LIMITS is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+
+    return new QuotaLedger({
+      file: process.env.GSC_QUOTA_FILE ||
+        path.join(os.homedir(), '.local', 'share', 'mcp-gsc-multi-account', 'quota.json'),
+      limits: parsed,
+    });
+  }
+
+  /**
+   * Count the calls, then wait for their per-minute slots. Throws
+   * QuotaExhaustedError, without counting anything, when the daily quota
+   * can't cover all of them.
+   */
+  async acquire(
+    accountId: string,
+    api: QuotaApi,
+    property: string,
+    units: number = 1,
+    projectId?: string
+  ): Promise<void> {
+    const limit = this.limits[api];
+    const { key, scoped } = this.keyOf(accountId, api, property, projectId);
+
+    this.rollOver();
+    if (limit.perDay !== undefined && (this.counts.get(key) || 0) + units > limit.perDay) {
+      throw new QuotaExhaustedError(api, scoped, limit.perDay);
+    }
+    // Counted before waiting, so concurrent callers can't overrun the daily quota
+    this.counts.set(key, (this.counts.get(key) || 0) + units);
+    this.pending.set(key, (this.pending.get(key) || 0) + units);
+    this.schedulePersist();
+
+    for (let taken = 0; taken < units; ) {
+      const wait = this.takeToken(key, limit.perMinute);
+      if (wait === 0) taken++;
+      else await sleep(wait);
+    }
+  }
+
+  /**
+   * Calls left today under a daily quota, or undefined if the API has none
+   */
+  remaining(accountId: string, api: QuotaApi, property: string, projectId?: string): number | undefined {
+    this.rollOver();
+    const limit = this.limits[api];
+    if (limit.perDay === undefined) return undefined;
+    return Math.max(0, limit.perDay - (this.counts.get(this.keyOf(accountId, api, property, projectId).key) || 0));
+  }
+
+  /**
+   * Counter of a call, depending on the scope of the API's limit
+   */
+  private keyOf(accountId: string, api: QuotaApi, property: string, projectId?: string): { key: string; scoped: string } {
+    switch (this.limits[api].scope) {
+      case 'property':
+        return { key: counterKey(accountId, api, property), scoped: property };
+      case 'account':
+        return { key: counterKey(accountId, api, ALL_PROPERTIES), scoped: ALL_PROPERTIES };
+      case 'project':
+        return {
+          key: counterKey(projectId ? `${PROJECT_PREFIX}${projectId}` : accountId, api, ALL_PROPERTIES),
+          scoped: ALL_PROPERTIES,
+        };
+    }
+  }
+
+  /**
+   * Today's usage, optionally for one account (with the project counters it
+   * shares) and/or property. APIs of the given property are listed even when
+   * unused. Project counters are listed as account "project:<id>".
+   */
+  usage(filter: { accountId?: string; projectId?: string; property?: string } = {}): QuotaUsage[] {
+    this.rollOver();
+    const keys = new Set(this.counts.keys());
+    if (filter.accountId && filter.property) {
+      for (const api of Object.keys(this.limits) as QuotaApi[]) {
+        keys.add(this.keyOf(filter.accountId, api, filter.property, filter.projectId).key);
+      }
+    }
+    const project = filter.projectId ? `${PROJECT_PREFIX}${filter.projectId}` : undefined;
+
+    const usage: QuotaUsage[] = [];
+    for (const key of keys) {
+      const [accountId, api, property] = JSON.parse(key) as [string, QuotaApi, string];
+      if (filter.accountId && accountId !== filter.accountId && accountId !== project) continue;
+      if (filter.property && property !== filter.property && property !== ALL_PROPERTIES) continue;
+
+      const limit = this.limits[api];
+      const used = this.counts.get(key) || 0;
+      usage.push({
+        accountId,
+        api,
+        property,
+        usedToday: used,
+        dailyLimit: limit.perDay,
+        remainingToday: limit.perDay !== undefined ? Math.max(0, limit.perDay - used) : undefined,
+        perMinuteLimit: limit.perMinute,
+        availableNow: Math.floor(this.refill(key, limit.perMinute).tokens),
+      });
+    }
+    return usage.sort((a, b) =>
+      a.accountId.localeCompare(b.accountId) || a.property.localeCompare(b.property) || a.api.localeCompare(b.api)
+    );
+  }
+
+  /**
+   * Write pending counts to the file, added to what other processes stored.
+   * Blocks while another process holds the lock; use it where awaiting is
+   * impossible (exit handler).
+   */
+  persist(): void {
+    if (!this.file || this.pending.size === 0) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = undefined;
+
+    try {
+      withFileLockSync(this.file, () => this.writeMerged());
+    } catch (e) {
+      console.error('Failed to write quota counters:', e);
+    }
+  }
+
+  /**
+   * persist() without blocking the event loop while waiting for the lock
+   */
+  private async persistAsync(): Promise<void> {
+    if (!this.file || this.pending.size === 0) return;
+    this.persistTimer = undefined;
+
+    try {
+      await withFileLock(this.file, () => this.writeMerged());
+    } catch (e) {
+      console.error('Failed to write quota counters:', e);
+    }
+  }
+
+  /**
+   * Read-merge-write of the counters file; the caller holds the lock
+   */
+  private writeMerged(): void {
+    const file = this.file!;
+    const stored = this.readFile();
+    // Another process already moved on to the next day, so these calls no longer count
+    if (stored.day !== undefined && stored.day > this.day) {
+      this.pending.clear();
+      return;
+    }
+    const merged = stored.counts;
+    for (const [key, count] of this.pending) {
+      merged.set(key, (merged.get(key) || 0) + count);
+    }
+
+    const content: QuotaFile = {
+      day: this.day,
+      counters: [...merged].map(([key, count]) => {
+        const [accountId, api, property] = JSON.parse(key) as [string, QuotaApi, string];
+        return { accountId, api, property, count };
+      }),
+    };
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(content, null, 2) + '\n');
+    fs.renameSync(tmpFile, file);
+    this.pending.clear();
+    this.counts = merged;
+  }
+
+  /**
+   * Returns 0 and takes a token if one is available, otherwise the ms to wait
+   */
+  private takeToken(key: string, perMinute: number): number {
+    const bucket = this.refill(key, perMinute);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) * 60_000) / perMinute);
+  }
+
+  private refill(key: string, perMinute: number): Bucket {
+    const capacity = Math.max(1, Math.floor(perMinute * BUCKET_CAPACITY_RATIO));
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60_000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * Reset the daily counters after midnight Pacific time
+   */
+  private rollOver(): void {
+    const today = gscToday();
+    if (today !== this.day) {
+      // Pending calls belong to the day that ended
+      this.persist();
+      this.day = today;
+      this.counts.clear();
+      this.pending.clear();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.file || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => void this.persistAsync(), PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Day of the file and its counters if that day is the ledger's; counters
+   * of another day are dropped
+   */
+  private readFile(): { day?: string; counts: Map<string, number> } {
+    const counts = new Map<string, number>();
+    if (!this.file) return { counts };
+    try {
+      const content: QuotaFile = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      if (content.day === this.day) {
+        for (const counter of content.counters) {
+          counts.set(counterKey(counter.accountId, counter.api, counter.property), counter.count);
+        }
+      }
+      return { day: content.day, counts };
+    } catch {
+      // Missing or unreadable file: start from zero
+      return { counts };
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * On-disk response cache for Search Analytics queries
+ *
+ * Entries are keyed on account, site and the normalized request body, and
+ * stored as one JSON file per entry. Queries whose dates are all finalized
+ * are kept for a long time; queries touching recent, still-changing days
+ * expire quickly.
+ *
+ * Configuration:
+ * - GSC_CACHE_DIR: cache directory (default: ~/.cache/mcp-gsc-multi-account)
+ * - GSC_CACHE=off: disable the cache
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// TTL for requests that include days GSC may still update
+export const FRESH_TTL_MS = 15 * 60 * 1000;
+// TTL for requests that only cover finalized days
+export const FINAL_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  accountId: string;
+  siteUrl: string;
+  createdAt: number;
+  expiresAt: number;
+  value: T;
+}
+
+/**
+ * JSON with sorted object keys and undefined values dropped, so equivalent
+ * request bodies produce the same key
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class ResponseCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Create the cache from GSC_CACHE_DIR, or undefined if disabled with GSC_CACHE=off
+   */
+  static fromEnvironment(): ResponseCache | undefined {
+    if (process.env.GSC_CACHE === 'off') {
+      return undefined;
+    }
+    return new ResponseCache(
+      process.env.GSC_CACHE_DIR || path.join(os.homedir(), '.cache', 'mcp-gsc-multi-account')
+    );
+  }
+
+  get<T>(accountId: string, siteUrl: string, request: unknown): T | undefined {
+    const file = this.fileFor(accountId, siteUrl, request);
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt < Date.now()) {
+      fs.rmSync(file, { force: true });
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set<T>(accountId: string, siteUrl: string, request: unknown, value: T, ttlMs: number): void {
+    const entry: CacheEntry<T> = {
+      accountId,
+      siteUrl,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + ttlMs,
+      value,
+    };
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const file = this.fileFor(accountId, siteUrl, request);
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(entry), { mode: 0o600 });
+      fs.renameSync(tmpFile, file);
+    } catch (e) {
+      // A cache write failure must never fail the tool call
+      console.error('Failed to write response cache:', e);
+    }
+  }
+
+  /**
+   * Remove entries, optionally only those of an account and/or site.
+   * Expired entries are always removed. Returns the number of entries removed.
+   */
+  clear(filter: { accountId?: string; siteUrl?: string } = {}): number {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir).filter(name => name.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const name of files) {
+      const file = path.join(this.dir, name);
+      try {
+        const entry: CacheEntry<unknown> = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        const matches =
+          (!filter.accountId || entry.accountId === filter.accountId) &&
+          (!filter.siteUrl || entry.siteUrl === filter.siteUrl);
+        if (!matches && entry.expiresAt >= Date.now()) continue;
+      } catch {
+        // Unreadable entry, drop it
+      }
+      fs.rmSync(file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private fileFor(accountId: string, siteUrl: string, request: unknown): string {
+    const hash = crypto
+      .createHash('sha256')
+      .update(stableStringify({ accountId, siteUrl, request }))
+      .digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Retry of transient Google API failures
+ *
+ * Rate limiting (429, per-minute 403s), server errors and dropped connections
+ * are retried with full-jitter exponential backoff. A Retry-After header
+ * takes precedence over the computed delay. Daily quota errors are not
+ * retried, whatever their status: they only clear at midnight Pacific time.
+ */
+
+import { describeApiError } from './api-errors.js';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+// 403 reasons that clear within a minute, unlike daily quota errors
+const RETRYABLE_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded', 'backendError']);
+// Reasons of daily quota errors, some of which come with a 429
+const DAILY_QUOTA_REASONS = new Set(['dailyLimitExceeded', 'quotaExceeded', 'RESOURCE_EXHAUSTED']);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE']);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRetryable(err: unknown): boolean {
+  const code = (err as { code?: unknown })?.code;
+  if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) return true;
+
+  const { status, reason } = describeApiError(err);
+  if (reason !== undefined && DAILY_QUOTA_REASONS.has(reason)) return false;
+  return (status !== undefined && RETRYABLE_STATUS.has(status)) || (reason !== undefined && RETRYABLE_REASONS.has(reason));
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), in ms
+ */
+function retryAfterMs(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Run an operation, retrying transient failures
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+
+      const requested = retryAfterMs(describeApiError(err).retryAfter);
+      // Waiting longer than maxDelayMs would only stall the tool call
+      if (requested !== undefined && requested > maxDelayMs) throw err;
+      const delay = requested ?? Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay);
+    }
+  }
+}
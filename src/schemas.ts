@@ -1,11 +1,14 @@
 import { z } from 'zod';
+import { isValidRegex } from './account-config.js';
 
 // Base schema with account selection
 export const AccountSchema = z.object({
   account: z
     .string()
     .optional()
-    .describe('Google account email to use. If not specified, will use the first available account.'),
+    .describe(
+      'Google account email to use. If not specified, tools taking a siteUrl use the account with the highest permission on that site, others the first available account.'
+    ),
 });
 
 // GSC Base Schema with site URL
@@ -17,10 +20,306 @@ export const GSCBaseSchema = AccountSchema.extend({
     ),
 });
 
+// Find Site Owner Schema
+export const FindSiteOwnerSchema = z.object({
+  siteUrl: z
+    .string()
+    .describe('The site URL or property. Example: sc-domain:example.com or https://www.example.com/'),
+  refresh: z.boolean().default(false).describe('Re-list the sites of every account instead of using the cached index'),
+});
+
+// Dimension filters
+const FilterOperatorSchema = z.enum(['equals', 'contains', 'notEquals', 'notContains', 'includingRegex', 'excludingRegex']);
+
+export const DimensionFilterSchema = z.object({
+  dimension: z.enum(['query', 'page', 'country', 'device', 'searchAppearance']).describe('Dimension to filter on'),
+  operator: FilterOperatorSchema.default('contains').describe('Filter operator'),
+  expression: z
+    .string()
+    .describe('Value to match (country: ISO 3166-1 alpha-3, device: DESKTOP/MOBILE/TABLET, regex operators: RE2 syntax)'),
+});
+
+// Filter params shared by the search analytics based tools. All filters are ANDed.
+export const FilterParamsSchema = z.object({
+  pageFilter: z.string().optional().describe('Filter by page URL'),
+  queryFilter: z.string().optional().describe('Filter by search query'),
+  countryFilter: z.string().optional().describe('Filter by country (ISO 3166-1 alpha-3)'),
+  deviceFilter: z.enum(['DESKTOP', 'MOBILE', 'TABLET']).optional().describe('Filter by device'),
+  filterOperator: FilterOperatorSchema
+    .default('contains')
+    .optional()
+    .describe('Operator for pageFilter and queryFilter'),
+  filters: z
+    .array(DimensionFilterSchema)
+    .optional()
+    .describe(
+      'Additional filters, each with its own operator, combined with AND. Example: [{"dimension":"page","operator":"contains","expression":"/blog/"},{"dimension":"query","operator":"excludingRegex","expression":"brand|brandname"}]'
+    ),
+});
+
+// Cache params shared by the tools whose responses are cached
+export const CacheParamsSchema = z.object({
+  bypassCache: z
+    .boolean()
+    .default(false)
+    .describe('Ignore cached responses and query the API (the fresh response is cached)'),
+});
+
+/**
+ * Build dimensionFilterGroups from the shortcut filter params and the filters array
+ */
+export function buildDimensionFilterGroups(params: z.infer<typeof FilterParamsSchema>) {
+  const filters: { dimension: string; operator: string; expression: string }[] = [];
+  if (params.pageFilter) {
+    filters.push({
+      dimension: 'page',
+      operator: params.filterOperator || 'contains',
+      expression: params.pageFilter,
+    });
+  }
+  if (params.queryFilter) {
+    filters.push({
+      dimension: 'query',
+      operator: params.filterOperator || 'contains',
+      expression: params.queryFilter,
+    });
+  }
+  if (params.countryFilter) {
+    filters.push({
+      dimension: 'country',
+      operator: 'equals',
+      expression: params.countryFilter,
+    });
+  }
+  if (params.deviceFilter) {
+    filters.push({
+      dimension: 'device',
+      operator: 'equals',
+      expression: params.deviceFilter,
+    });
+  }
+  filters.push(...(params.filters || []));
+
+  return filters.length > 0 ? [{ groupType: 'and', filters }] : undefined;
+}
+
+// Date ranges
+//
+// GSC reports dates in Pacific time, keeps 16 months of data and finalizes a
+// day about 2-3 days later. Relative expressions are resolved against the
+// current Pacific date and end at the latest available day; explicit dates
+// are clamped to the available window.
+
+const GSC_TIMEZONE = 'America/Los_Angeles';
+const GSC_RETENTION_MONTHS = 16;
+// Days between today (Pacific) and the latest day worth querying
+const DATA_LAG_DAYS = { all: 2, final: 3 };
+const DEFAULT_DATE_RANGE = 'last28d';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type DateRangeShift = 'previous_period' | 'same_period_last_year';
+
+export interface ResolvedDateRange {
+  start: string;
+  end: string;
+  expression?: string;
+  timezone: string;
+  // Clamping applied to the requested dates
+  adjustments?: string[];
+}
+
+const dateRangeDescription =
+  'Relative range used instead of startDate/endDate: last7d, last28d, last3m, last16m, lastNd/lastNw/lastNm, ' +
+  'mtd, ytd, last_month, latest (latest available day). Append :previous_period or :same_period_last_year to shift it (e.g. ' +
+  '"last28d:same_period_last_year"), or pass previous_period / same_period_last_year alone to shift ' +
+  'startDate/endDate. Resolved in Pacific time and ending at the latest available day. Default: last28d';
+
+// Date range params shared by the search analytics based tools
+export const DateRangeParamsSchema = z.object({
+  startDate: z.string().optional().describe('Start date in YYYY-MM-DD format (or use dateRange)'),
+  endDate: z.string().optional().describe('End date in YYYY-MM-DD format (or use dateRange)'),
+  dateRange: z.string().optional().describe(dateRangeDescription),
+});
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a date by whole months, clamping the day to the target month length
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000);
+}
+
+/**
+ * Today's date in the GSC (Pacific) timezone
+ */
+export function gscToday(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: GSC_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * First and last day GSC can return data for
+ */
+export function availableDateWindow(
+  dataState: 'all' | 'final' = 'all',
+  now: Date = new Date()
+): { earliest: string; latest: string } {
+  const today = gscToday(now);
+  return {
+    earliest: addMonths(today, -GSC_RETENTION_MONTHS),
+    latest: addDays(today, -DATA_LAG_DAYS[dataState]),
+  };
+}
+
+/**
+ * Shift a range to the preceding period of the same length, or to the same dates one year earlier
+ */
+export function shiftDateRange(
+  range: { start: string; end: string },
+  shift: DateRangeShift
+): { start: string; end: string } {
+  if (shift === 'same_period_last_year') {
+    return { start: addMonths(range.start, -12), end: addMonths(range.end, -12) };
+  }
+  const length = daysBetween(range.start, range.end) + 1;
+  const end = addDays(range.start, -1);
+  return { start: addDays(end, -(length - 1)), end };
+}
+
+function invalidDateRange(path: string, message: string): z.ZodError {
+  return new z.ZodError([{ code: z.ZodIssueCode.custom, path: [path], message }]);
+}
+
+/**
+ * Resolve a base expression (last28d, mtd...) ending at the latest available day
+ */
+function resolveExpression(expression: string, latest: string, today: string): { start: string; end: string } {
+  const relative = /^last(\d+)([dwm])$/.exec(expression);
+  if (relative) {
+    const count = Number(relative[1]);
+    if (count < 1) throw invalidDateRange('dateRange', `Invalid range: ${expression}`);
+    const unit = relative[2];
+    const start = unit === 'm'
+      ? addDays(addMonths(latest, -count), 1)
+      : addDays(latest, -(count * (unit === 'w' ? 7 : 1) - 1));
+    return { start, end: latest };
+  }
+
+  switch (expression) {
+    case 'latest':
+      return { start: latest, end: latest };
+    case 'mtd':
+      return { start: `${today.slice(0, 7)}-01`, end: latest };
+    case 'ytd':
+      return { start: `${today.slice(0, 4)}-01-01`, end: latest };
+    case 'last_month': {
+      const start = addMonths(`${today.slice(0, 7)}-01`, -1);
+      return { start, end: addDays(`${today.slice(0, 7)}-01`, -1) };
+    }
+    default:
+      throw invalidDateRange(
+        'dateRange',
+        `Unknown date range "${expression}". Use lastNd, lastNw, lastNm, mtd, ytd, last_month or latest`
+      );
+  }
+}
+
+/**
+ * Resolve explicit dates or a dateRange expression into concrete dates within
+ * the available GSC window. Throws a ZodError for invalid input.
+ */
+export function resolveDateRange(
+  params: z.infer<typeof DateRangeParamsSchema>,
+  options: {
+    dataState?: 'all' | 'final';
+    now?: Date;
+    defaultRange?: string;
+    // Clamp startDate to the 16-month retention (off for locally stored history)
+    clampToRetention?: boolean;
+  } = {}
+): ResolvedDateRange {
+  const today = gscToday(options.now);
+  const { earliest, latest } = availableDateWindow(options.dataState, options.now);
+
+  for (const field of ['startDate', 'endDate'] as const) {
+    const value = params[field];
+    if (value && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      throw invalidDateRange(field, `Expected YYYY-MM-DD, got "${value}"`);
+    }
+  }
+  if (Boolean(params.startDate) !== Boolean(params.endDate)) {
+    throw invalidDateRange(params.startDate ? 'endDate' : 'startDate', 'startDate and endDate must be set together');
+  }
+
+  // Split "base:shift", where either part may be absent
+  const expression = params.dateRange?.trim();
+  let base: string | undefined = expression;
+  let shift: DateRangeShift | undefined;
+  if (expression) {
+    const parts = expression.split(':');
+    const last = parts[parts.length - 1];
+    if (last === 'previous_period' || last === 'same_period_last_year') {
+      shift = last;
+      base = parts.length > 1 ? parts.slice(0, -1).join(':') : undefined;
+    }
+  }
+  if (base && params.startDate) {
+    throw invalidDateRange('dateRange', 'Use either startDate/endDate or a dateRange expression, not both');
+  }
+
+  let range = params.startDate
+    ? { start: params.startDate, end: params.endDate! }
+    : resolveExpression(base || options.defaultRange || DEFAULT_DATE_RANGE, latest, today);
+  if (shift) {
+    range = shiftDateRange(range, shift);
+  }
+
+  const requested = { ...range };
+  const adjustments: string[] = [];
+  if (range.end > latest) {
+    adjustments.push(`endDate ${range.end} is after the latest available day, clamped to ${latest}`);
+    range.end = latest;
+  }
+  if (options.clampToRetention !== false && range.start < earliest) {
+    adjustments.push(`startDate ${range.start} is older than ${GSC_RETENTION_MONTHS} months, clamped to ${earliest}`);
+    range.start = earliest;
+  }
+  if (range.start > range.end) {
+    throw invalidDateRange(
+      params.startDate ? 'startDate' : 'dateRange',
+      `No data available for ${requested.start} to ${requested.end} (available: ${earliest} to ${latest})`
+    );
+  }
+
+  return {
+    start: range.start,
+    end: range.end,
+    expression: expression || (params.startDate ? undefined : options.defaultRange || DEFAULT_DATE_RANGE),
+    timezone: GSC_TIMEZONE,
+    adjustments: adjustments.length > 0 ? adjustments : undefined,
+  };
+}
+
 // Search Analytics Schema
 export const SearchAnalyticsSchema = GSCBaseSchema.extend({
-  startDate: z.string().describe('Start date in YYYY-MM-DD format'),
-  endDate: z.string().describe('End date in YYYY-MM-DD format'),
+  ...DateRangeParamsSchema.shape,
   dimensions: z
     .string()
     .transform((val) => val.split(',').map(d => d.trim()))
@@ -52,34 +351,195 @@ export const SearchAnalyticsSchema = GSCBaseSchema.extend({
     .enum(['all', 'final'])
     .default('all')
     .describe('Data freshness: "all" for latest data, "final" for finalized data'),
-  pageFilter: z.string().optional().describe('Filter by page URL'),
-  queryFilter: z.string().optional().describe('Filter by search query'),
-  countryFilter: z.string().optional().describe('Filter by country (ISO 3166-1 alpha-3)'),
-  deviceFilter: z.enum(['DESKTOP', 'MOBILE', 'TABLET']).optional().describe('Filter by device'),
-  filterOperator: z
-    .enum(['equals', 'contains', 'notEquals', 'notContains', 'includingRegex', 'excludingRegex'])
-    .default('contains')
+  paginate: z
+    .boolean()
+    .default(false)
+    .describe('Fetch every page of results (beyond 25,000 rows) instead of a single rowLimit page'),
+  maxRows: z
+    .number()
+    .min(1)
     .optional()
-    .describe('Operator for filters'),
-});
+    .describe('With paginate, stop after this many rows (default: all rows)'),
+  splitByDay: z
+    .boolean()
+    .default(false)
+    .describe('With paginate, query each day separately and merge to recover rows GSC drops on large date ranges'),
+  output: z
+    .enum(['inline', 'csv', 'ndjson', 'parquet'])
+    .default('inline')
+    .describe('"inline" returns the rows as JSON; "csv", "ndjson" and "parquet" write them to a file in the export directory and return its path with a summary. Combine with paginate to export every row'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+const BrandTermsSchema = z
+  .array(z.string().min(1).refine(isValidRegex, { message: 'not a valid regular expression' }))
+  .describe('Regexes matching branded queries, case-insensitive. Example: ["acme", "ac?me\\s?corp"]');
 
 // Quick Wins Detection Schema
 export const QuickWinsSchema = GSCBaseSchema.extend({
-  startDate: z.string().describe('Start date in YYYY-MM-DD format'),
-  endDate: z.string().describe('End date in YYYY-MM-DD format'),
+  ...DateRangeParamsSchema.shape,
   minImpressions: z.number().default(100).describe('Minimum impressions threshold'),
   maxCtr: z.number().default(3.0).describe('Maximum CTR percentage'),
   positionRangeMin: z.number().default(4).describe('Minimum position (default: 4)'),
   positionRangeMax: z.number().default(20).describe('Maximum position (default: 20)'),
   limit: z.number().default(50).describe('Maximum quick wins to return'),
+  type: z
+    .enum(['web', 'image', 'video', 'news'])
+    .default('web')
+    .describe('Search type of the analyzed queries and of the CTR curve'),
+  targetPosition: z
+    .number()
+    .min(1)
+    .max(20)
+    .default(3)
+    .describe('Position whose expected CTR gives the potential clicks'),
+  ctrCurve: z
+    .enum(['site', 'default'])
+    .default('site')
+    .describe('"site" fits a CTR-by-position curve on the site\'s non-branded queries (the default curve is used when data is too thin); "default" always uses the default curve'),
+  defaultCurve: z
+    .array(z.number().min(0).max(100))
+    .min(1)
+    .max(20)
+    .optional()
+    .describe('Default CTR percentages for positions 1, 2, 3... (default: GSC_CTR_CURVE or the built-in curve)'),
+  brandTerms: BrandTermsSchema.optional().describe('Brand regexes left out of the curve fit, instead of the ones stored for the site'),
+  maxRows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum query/page rows to analyze (default: all rows, fetched page by page)'),
+  splitByDay: z
+    .boolean()
+    .default(false)
+    .describe('Query each day separately and merge to recover rows GSC drops on large sites'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+// Cannibalization Schema
+export const CannibalizationSchema = GSCBaseSchema.extend({
+  ...DateRangeParamsSchema.shape,
+  minPageImpressions: z
+    .number()
+    .min(1)
+    .default(20)
+    .describe('Impressions a page needs for a query to count as competing'),
+  minImpressionShare: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(10)
+    .describe("Share of the query's impressions, in percent, a page needs to count as competing"),
+  limit: z.number().min(1).max(500).default(25).describe('Maximum conflicts to return'),
+  maxRows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum query/page rows to analyze (default: all rows, fetched page by page)'),
+  splitByDay: z
+    .boolean()
+    .default(false)
+    .describe('Query each day separately and merge to recover rows GSC drops on large sites'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+// Anomaly Detection Schema
+export const DetectAnomaliesSchema = GSCBaseSchema.extend({
+  ...DateRangeParamsSchema.shape,
+  metrics: z
+    .array(z.enum(['clicks', 'impressions', 'ctr', 'position']))
+    .min(1)
+    .default(['clicks', 'impressions', 'ctr', 'position'])
+    .describe('Metrics to check'),
+  segmentDimension: z
+    .enum(['page', 'query', 'country', 'device'])
+    .optional()
+    .describe('Attribute each anomaly to the segments of this dimension that changed most'),
+  threshold: z
+    .number()
+    .min(1)
+    .default(3)
+    .describe('Robust z-score above which a day is flagged (higher flags fewer days)'),
+  maxSegmentRows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum date/segment rows to fetch for attribution (default: all rows)'),
+  limit: z.number().min(1).default(50).describe('Maximum anomalies to return, most recent first'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+// Content Decay Schema
+export const ContentDecaySchema = GSCBaseSchema.extend({
+  ...DateRangeParamsSchema.shape,
+  granularity: z
+    .enum(['month', 'rolling28d'])
+    .default('rolling28d')
+    .describe('Compare calendar months, or 28-day periods ending on the last day of the range'),
+  minPeakClicks: z.number().min(0).default(100).describe('Clicks a page needs in its best period to be considered'),
+  minDeclinePercent: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(30)
+    .describe('Minimum decline of the latest period from the peak, in percent'),
+  minPeriodsSincePeak: z
+    .number()
+    .min(1)
+    .default(2)
+    .describe('Periods that must have passed since the peak, so one bad period is not reported as decay'),
+  limit: z.number().min(1).max(200).default(20).describe('Maximum pages to return, by lost clicks'),
+  maxRowsPerPeriod: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum page rows to fetch per period (default: all rows)'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+// Query Segmentation Schemas
+export const SetBrandTermsSchema = GSCBaseSchema.extend({
+  brandTerms: BrandTermsSchema.describe('Regexes matching branded queries, case-insensitive (an empty list clears them)'),
 });
 
+export const SegmentQueriesSchema = GSCBaseSchema.extend({
+  ...DateRangeParamsSchema.shape,
+  vs: z
+    .enum(['previous', 'yoy'])
+    .optional()
+    .describe('Compare with the preceding period of the same length ("previous") or the same dates last year ("yoy")'),
+  brandTerms: BrandTermsSchema.optional().describe('Brand regexes to use instead of the ones stored for the site'),
+  maxClusters: z.number().min(0).max(100).default(20).describe('Maximum topic clusters of non-branded queries'),
+  minClusterSize: z.number().min(2).default(3).describe('Queries sharing an n-gram needed to form a cluster'),
+  maxRows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum query rows to fetch per period (default: all rows)'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
 // URL Inspection Schema
 export const InspectUrlSchema = GSCBaseSchema.extend({
   inspectionUrl: z.string().describe('The URL to inspect'),
   languageCode: z.string().default('en-US').optional().describe('Language code for messages'),
 });
 
+// Bulk URL Inspection Schema
+export const BulkInspectUrlsSchema = GSCBaseSchema.extend({
+  urls: z
+    .array(z.string())
+    .optional()
+    .describe('URLs to inspect. Without urls, the top pages by clicks from search analytics (matching the filters and date range) are inspected'),
+  ...DateRangeParamsSchema.shape,
+  maxUrls: z
+    .number()
+    .min(1)
+    .max(2000)
+    .default(100)
+    .describe('Maximum URLs to inspect (the daily URL Inspection quota is 2,000 per property)'),
+  concurrency: z.number().min(1).max(10).default(5).describe('Parallel inspections'),
+  languageCode: z.string().default('en-US').describe('Language code for messages'),
+  output: z
+    .enum(['inline', 'csv', 'ndjson', 'parquet'])
+    .default('inline')
+    .describe('"inline" returns the per-URL results as JSON; "csv", "ndjson" and "parquet" write them to a file in the export directory. The summary is always returned'),
+}).extend(FilterParamsSchema.shape);
+
 // Submit URL for Indexing Schema
 export const SubmitIndexingSchema = AccountSchema.extend({
   url: z.string().describe('The full URL to submit for indexing'),
@@ -87,6 +547,45 @@ export const SubmitIndexingSchema = AccountSchema.extend({
     .enum(['URL_UPDATED', 'URL_DELETED'])
     .default('URL_UPDATED')
     .describe('URL_UPDATED to request indexing, URL_DELETED to request removal'),
+  retry: z
+    .boolean()
+    .default(false)
+    .describe('Retry rate-limited requests and server errors. A request that failed with a server error may have been recorded, so a retry can send the notification twice'),
+});
+
+// Bulk Submit URLs for Indexing Schema
+export const BulkSubmitIndexingSchema = AccountSchema.extend({
+  urls: z.array(z.string()).min(1).describe('Full URLs to notify Google about'),
+  type: z
+    .enum(['URL_UPDATED', 'URL_DELETED'])
+    .default('URL_UPDATED')
+    .describe('URL_UPDATED to request indexing, URL_DELETED to request removal'),
+  dedupeHours: z
+    .number()
+    .min(0)
+    .default(24)
+    .describe('Skip URLs already notified successfully with the same type within this many hours (0 to resend)'),
+});
+
+// Indexing Notifications Schema
+export const IndexingNotificationsSchema = AccountSchema.extend({
+  urls: z
+    .array(z.string())
+    .optional()
+    .describe('URLs to look up. Without urls, the most recently submitted URLs from the local submission log'),
+  limit: z.number().min(1).max(500).default(50).describe('Maximum URLs to look up'),
+});
+
+// Site Schemas
+export const GetSiteSchema = GSCBaseSchema;
+
+export const AddSiteSchema = GSCBaseSchema;
+
+export const DeleteSiteSchema = GSCBaseSchema.extend({
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe('Only report the property that would be removed'),
 });
 
 // Sitemap Schemas
@@ -96,18 +595,159 @@ export const SubmitSitemapSchema = GSCBaseSchema.extend({
   feedpath: z.string().describe('The URL of the sitemap to submit'),
 });
 
+export const GetSitemapSchema = GSCBaseSchema.extend({
+  feedpath: z.string().describe('The URL of the sitemap, as listed by list_sitemaps'),
+});
+
+export const DeleteSitemapSchema = GetSitemapSchema.extend({
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe('Only report the sitemap that would be deleted'),
+});
+
+export const AnalyzeSitemapSchema = GSCBaseSchema.extend({
+  sitemapUrl: z
+    .string()
+    .optional()
+    .describe('URL of the sitemap or sitemap index to analyze (default: every sitemap submitted for the site)'),
+  ...DateRangeParamsSchema.shape,
+  crossCheck: z
+    .boolean()
+    .default(true)
+    .describe('Compare the sitemap URLs with the pages that got impressions in the date range (default range: last28d)'),
+  inspectSample: z
+    .number()
+    .min(0)
+    .max(200)
+    .default(0)
+    .describe('Inspect a random sample of this many sitemap URLs without impressions (uses the URL Inspection quota)'),
+  maxSitemaps: z
+    .number()
+    .min(1)
+    .max(1000)
+    .default(100)
+    .describe('Maximum sitemap files to download, indexes included'),
+});
+
 // Compare Periods Schema
 export const ComparePeriodsSchema = GSCBaseSchema.extend({
-  currentStartDate: z.string().describe('Current period start date (YYYY-MM-DD)'),
-  currentEndDate: z.string().describe('Current period end date (YYYY-MM-DD)'),
-  previousStartDate: z.string().describe('Previous period start date (YYYY-MM-DD)'),
-  previousEndDate: z.string().describe('Previous period end date (YYYY-MM-DD)'),
+  currentStartDate: z.string().optional().describe('Current period start date (YYYY-MM-DD), or use dateRange'),
+  currentEndDate: z.string().optional().describe('Current period end date (YYYY-MM-DD), or use dateRange'),
+  dateRange: z.string().optional().describe(`Current period as a relative range. ${dateRangeDescription}`),
+  previousStartDate: z.string().optional().describe('Previous period start date (YYYY-MM-DD), or use vs'),
+  previousEndDate: z.string().optional().describe('Previous period end date (YYYY-MM-DD), or use vs'),
+  vs: z
+    .enum(['previous', 'yoy'])
+    .optional()
+    .describe('Derive the previous period from the current one: "previous" (preceding period of the same length, default) or "yoy" (same dates last year)'),
   dimensions: z
     .string()
     .transform((val) => val.split(',').map(d => d.trim()))
     .optional()
     .describe('Dimensions to compare by'),
-  rowLimit: z.number().default(100).describe('Maximum rows to return'),
+  rowLimit: z.number().min(1).default(25).describe('Rows per winner and loser list'),
+  stableThreshold: z
+    .number()
+    .min(0)
+    .default(10)
+    .describe('Click change, in percent of the previous period, within which a row counts as stable'),
+  maxRows: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Maximum rows to fetch per period before comparing (default: all rows)'),
+  splitByDay: z
+    .boolean()
+    .default(false)
+    .describe('Query each day separately and merge to recover rows GSC drops on large sites'),
+}).extend(FilterParamsSchema.shape).extend(CacheParamsSchema.shape);
+
+// Portfolio Overview Schema
+export const PortfolioOverviewSchema = z.object({
+  ...DateRangeParamsSchema.shape,
+  vs: z
+    .enum(['previous', 'yoy'])
+    .default('previous')
+    .describe('Compare with the preceding period of the same length ("previous") or the same dates last year ("yoy")'),
+  type: z
+    .enum(['web', 'image', 'video', 'news', 'discover', 'googleNews'])
+    .default('web')
+    .describe('Search type'),
+  dropThreshold: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(20)
+    .describe('Decrease of clicks or impressions, in percent, from which a site is flagged'),
+  minClicks: z
+    .number()
+    .min(0)
+    .default(50)
+    .describe('Previous-period clicks a site needs to be flagged'),
+  sortBy: z
+    .enum(['clicks', 'impressions', 'clicksChange', 'clicksChangePercent'])
+    .default('clicks')
+    .describe('"clicks" and "impressions" list the largest sites first, "clicksChange" and "clicksChangePercent" the biggest losses first'),
+  concurrency: z.number().min(1).max(10).default(4).describe('Sites queried in parallel'),
+  refresh: z.boolean().default(false).describe('Re-list the sites of every account instead of using the cached index'),
+}).extend(CacheParamsSchema.shape);
+
+// Clear Cache Schema
+export const ClearCacheSchema = AccountSchema.extend({
+  siteUrl: z.string().optional().describe('Only clear entries for this site (as passed to the tools)'),
+});
+
+// Quota Usage Schema
+export const QuotaUsageSchema = AccountSchema.extend({
+  siteUrl: z.string().optional().describe('Only show usage for this property'),
+});
+
+// History rows are fetched by query, which the discover and googleNews search types don't support
+const HistorySearchTypeSchema = z.enum(['web', 'image', 'video', 'news']);
+
+// History rows have no searchAppearance to filter on
+const HistoryDimensionFilterSchema = DimensionFilterSchema.extend({
+  dimension: z.enum(['query', 'page', 'country', 'device']).describe('Dimension to filter on'),
+});
+
+// Sync Site History Schema
+export const SyncSiteHistorySchema = GSCBaseSchema.extend({
+  type: HistorySearchTypeSchema
+    .default('web')
+    .describe('Search type to sync'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe('Oldest day to backfill, YYYY-MM-DD (default: 16 months ago, the oldest day GSC keeps)'),
+  maxDays: z
+    .number()
+    .min(1)
+    .default(31)
+    .describe('Maximum days to fetch in this call (one request per 25,000 rows per day); call again to continue'),
+});
+
+// Query History Schema
+export const QueryHistorySchema = z.object({
+  siteUrl: GSCBaseSchema.shape.siteUrl,
+  ...DateRangeParamsSchema.shape,
+  dimensions: z
+    .string()
+    .transform((val) => val.split(',').map(d => d.trim()))
+    .refine((val) => val.every((d) => ['query', 'page', 'country', 'device', 'date'].includes(d)))
+    .optional()
+    .describe('Comma-separated dimensions: query, page, country, device, date'),
+  type: HistorySearchTypeSchema
+    .default('web')
+    .describe('Search type'),
+  rowLimit: z.number().min(1).default(1000).describe('Maximum rows to return'),
+  startRow: z.number().min(0).optional().describe('Starting row for pagination'),
+}).extend(FilterParamsSchema.shape).extend({
+  filters: z
+    .array(HistoryDimensionFilterSchema)
+    .optional()
+    .describe('Additional filters on query, page, country or device, each with its own operator, combined with AND'),
 });
 
 // Export types
@@ -5,8 +5,77 @@
 
 import { google, searchconsole_v1, webmasters_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { mapWithConcurrency } from './concurrency.js';
+import { FINAL_TTL_MS, FRESH_TTL_MS, ResponseCache } from './response-cache.js';
+import { QuotaApi, QuotaLedger } from './quota.js';
+import { GscApiError, classifyApiError } from './api-errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+import {
+  BatchPartResult,
+  INDEXING_BATCH_URL,
+  MAX_BATCH_SIZE,
+  UrlNotification,
+  buildBatchBody,
+  parseBatchResponse,
+} from './indexing-batch.js';
+import { addDays, availableDateWindow } from './schemas.js';
+import { CtrCurve, expectedCtr, fitCtrCurves } from './ctr-curve.js';
+import { diffPeriods } from './period-diff.js';
 
 type SearchAnalyticsRequest = webmasters_v3.Params$Resource$Searchanalytics$Query['requestBody'];
+type SearchAnalyticsRow = webmasters_v3.Schema$ApiDataRow;
+type DimensionFilterGroup = webmasters_v3.Schema$ApiDimensionFilterGroup;
+
+// Maximum rows the API returns per request
+const MAX_ROWS_PER_REQUEST = 25000;
+// Parallel requests when splitting a date range by day
+const DAY_SPLIT_CONCURRENCY = 3;
+// Retries of the parts of an Indexing API batch answered with 429 or 5xx
+const PART_RETRIES = 3;
+const PART_RETRY_BASE_DELAY_MS = 1000;
+// Longest regex expression sent in a dimension filter
+const MAX_REGEX_LENGTH = 4000;
+// Shortest period kept in a content decay series (drops partial months)
+const MIN_PERIOD_DAYS = 14;
+// Fit quality a decline needs to count as steady
+const STEADY_DECLINE_R2 = 0.5;
+// Queries listed per decaying page
+const LOST_QUERIES = 5;
+// Share of the analyzed clicks a quick win must add to rank High / Medium,
+// with a floor in clicks so small sites don't rank every win High
+const HIGH_OPPORTUNITY = { share: 0.01, minClicks: 10 };
+const MEDIUM_OPPORTUNITY = { share: 0.0025, minClicks: 3 };
+
+export interface PaginationOptions {
+  // Stop after this many rows (default: until exhaustion)
+  maxRows?: number;
+  // Query each day separately and merge, recovering rows GSC drops for long ranges
+  splitByDay?: boolean;
+}
+
+export interface SearchAnalyticsResult {
+  data: webmasters_v3.Schema$SearchAnalyticsQueryResponse;
+  pagination?: {
+    requests: number;
+    days?: number;
+    truncated: boolean;
+  };
+  // Served from the local response cache (single requests only)
+  cached?: boolean;
+}
+
+export interface SearchConsoleServiceOptions {
+  // Account the client belongs to, used for cache keys and quota counters
+  accountId?: string;
+  cache?: ResponseCache;
+  // Counts and throttles calls per account, property and API
+  quota?: QuotaLedger;
+  // Google Cloud project the calls are billed to (OAuth client ID or service
+  // account project), for project-scoped quotas
+  projectId?: string;
+  // Skip cache reads; fresh responses are still written back
+  bypassCache?: boolean;
+}
 
 export interface QuickWin {
   query: string;
@@ -15,17 +84,89 @@ export interface QuickWin {
   impressions: number;
   currentClicks: number;
   currentCtr: number;
+  // CTR the curve predicts at the current position, in percent
+  expectedCtr: number;
+  targetPosition: number;
+  targetCtr: number;
+  // Weight of the site's own data in the target CTR, from 0 (default curve) to 1
+  confidence: number;
   potentialClicks: number;
   additionalClicks: number;
   opportunity: 'High' | 'Medium' | 'Low';
   optimizationNote: string;
 }
 
+export interface QuickWinModelOptions {
+  // Search type of the analyzed rows and of the fitted curve (default: web)
+  searchType?: string;
+  // Queries left out of the curve fit
+  brandPatterns?: RegExp[];
+  // Use this device's curve when it has enough data
+  device?: 'DESKTOP' | 'MOBILE' | 'TABLET';
+  // Fit a curve on the site's data (default: true); false uses the default curve
+  siteCurve?: boolean;
+  // Position whose expected CTR gives the potential clicks (default: 3)
+  targetPosition?: number;
+  // Default CTR per position as fractions (default: GSC_CTR_CURVE or built-in)
+  defaultCurve?: number[];
+}
+
+export interface CannibalizingPage {
+  page: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  clickShare: number;
+  impressionShare: number;
+  // Days this page was the best-ranked of the competing pages
+  daysRankingFirst: number;
+}
+
+export interface CannibalizationConflict {
+  query: string;
+  clicks: number;
+  impressions: number;
+  pages: CannibalizingPage[];
+  // Extra clicks if every impression earned the CTR of the best-performing page
+  lostClickPotential: number;
+  // Day-to-day changes of the best-ranked page
+  rankingUrlChanges: number;
+  daysWithMultiplePages: number;
+  primaryPage: string;
+  recommendation: string;
+}
+
+export interface DecayPeriod {
+  label: string;
+  start: string;
+  end: string;
+}
+
+export interface DecayingPage {
+  page: string;
+  // Clicks per period, in the order of the returned periods
+  clicks: number[];
+  peakPeriod: string;
+  peakClicks: number;
+  currentClicks: number;
+  // Clicks lost in the latest period compared with the peak rate
+  lostClicks: number;
+  declinePercent: number;
+  periodsSincePeak: number;
+  // Linear trend of daily clicks since the peak, as a share of the peak per period
+  trendPercentPerPeriod: number;
+  trendR2: number;
+  topLostQueries: { query: string; peakClicks: number; currentClicks: number; lostClicks: number; share: number }[];
+}
+
 export class SearchConsoleService {
   private authClient: OAuth2Client;
+  private options: SearchConsoleServiceOptions;
 
-  constructor(authClient: OAuth2Client) {
+  constructor(authClient: OAuth2Client, options: SearchConsoleServiceOptions = {}) {
     this.authClient = authClient;
+    this.options = options;
   }
 
   private getWebmasters() {
@@ -49,6 +190,20 @@ export class SearchConsoleService {
     });
   }
 
+  /**
+   * Wait for quota before sending a request
+   */
+  private async acquireQuota(api: QuotaApi, property: string, units: number = 1): Promise<void> {
+    await this.options.quota?.acquire(this.options.accountId || 'default', api, property, units, this.options.projectId);
+  }
+
+  /**
+   * Calls left today under the daily quota of an API, if one is tracked
+   */
+  remainingQuota(api: QuotaApi, property: string): number | undefined {
+    return this.options.quota?.remaining(this.options.accountId || 'default', api, property, this.options.projectId);
+  }
+
   /**
    * Normalize URL to handle different formats
    */
@@ -65,17 +220,43 @@ export class SearchConsoleService {
   }
 
   /**
-   * Handle permission errors by trying sc-domain format
+   * Send a request: wait for quota, retry transient failures and map Google
+   * errors to GscApiError. Quota is taken again for every attempt, so a
+   * retried call is counted once per request sent.
    */
-  private async handlePermissionError<T>(
+  private async request<T>(
     operation: () => Promise<T>,
-    fallbackOperation: () => Promise<T>
+    api?: QuotaApi,
+    property: string = '*',
+    retry: RetryOptions = {}
   ): Promise<T> {
     try {
-      return await operation();
+      return await withRetry(async () => {
+        if (api) await this.acquireQuota(api, property);
+        return operation();
+      }, retry);
     } catch (err) {
-      if (err instanceof Error && err.message.toLowerCase().includes('permission')) {
-        return await fallbackOperation();
+      throw classifyApiError(err) ?? err;
+    }
+  }
+
+  /**
+   * Run a site request, falling back to the sc-domain property when the
+   * account has no access to the site as given
+   */
+  private async handlePermissionError<T>(
+    siteUrl: string,
+    operation: (siteUrl: string) => Promise<T>,
+    api?: QuotaApi
+  ): Promise<T> {
+    try {
+      return await this.request(() => operation(siteUrl), api, siteUrl);
+    } catch (err) {
+      const fallbackUrl = this.normalizeUrl(siteUrl);
+      const denied = err instanceof GscApiError &&
+        (err.kind === 'permission_denied' || err.kind === 'property_not_verified');
+      if (denied && fallbackUrl !== siteUrl) {
+        return await this.request(() => operation(fallbackUrl), api, fallbackUrl);
       }
       throw err;
     }
@@ -86,25 +267,117 @@ export class SearchConsoleService {
    */
   async listSites() {
     const webmasters = this.getWebmasters();
-    return webmasters.sites.list();
+    return this.request(() => webmasters.sites.list());
   }
 
   /**
    * Search Analytics Query
+   *
+   * With pagination options, follows startRow until the result set is
+   * exhausted or maxRows is reached, optionally one day at a time.
+   * Each underlying request goes through the response cache when one is configured.
    */
-  async searchAnalytics(siteUrl: string, requestBody: SearchAnalyticsRequest) {
+  async searchAnalytics(
+    siteUrl: string,
+    requestBody: SearchAnalyticsRequest,
+    pagination?: PaginationOptions
+  ): Promise<SearchAnalyticsResult> {
+    if (pagination) {
+      return this.searchAnalyticsPaginated(siteUrl, requestBody, pagination);
+    }
+
+    const { accountId = 'default', cache, bypassCache } = this.options;
+    if (cache && !bypassCache) {
+      const data = cache.get<SearchAnalyticsResult['data']>(accountId, siteUrl, requestBody);
+      if (data) {
+        return { data, cached: true };
+      }
+    }
+
     const webmasters = this.getWebmasters();
-    return this.handlePermissionError(
-      () => webmasters.searchanalytics.query({ siteUrl, requestBody }),
-      () => webmasters.searchanalytics.query({ 
-        siteUrl: this.normalizeUrl(siteUrl), 
-        requestBody 
-      })
+    const response = await this.handlePermissionError(
+      siteUrl,
+      (site) => webmasters.searchanalytics.query({ siteUrl: site, requestBody }),
+      'searchAnalytics'
+    );
+
+    cache?.set(accountId, siteUrl, requestBody, response.data, cacheTtl(requestBody));
+    return { data: response.data };
+  }
+
+  private async searchAnalyticsPaginated(
+    siteUrl: string,
+    requestBody: SearchAnalyticsRequest,
+    { maxRows = Infinity, splitByDay = false }: PaginationOptions
+  ): Promise<SearchAnalyticsResult> {
+    const body = requestBody || {};
+
+    if (!splitByDay || !body.startDate || !body.endDate || body.startDate === body.endDate) {
+      const { rows, requests, truncated, aggregationType } = await this.fetchAllRows(siteUrl, body, maxRows);
+      return {
+        data: { rows, responseAggregationType: aggregationType },
+        pagination: { requests, truncated },
+      };
+    }
+
+    const days = listDays(body.startDate, body.endDate);
+    const perDay = await mapWithConcurrency(days, DAY_SPLIT_CONCURRENCY, day =>
+      this.fetchAllRows(siteUrl, { ...body, startDate: day, endDate: day, startRow: undefined }, maxRows)
     );
+
+    // Without a date dimension, the same keys appear once per day and must be merged
+    const rows = body.dimensions?.includes('date')
+      ? perDay.flatMap(day => day.rows)
+      : mergeRows(perDay.flatMap(day => day.rows));
+    rows.sort((a, b) => (b.clicks || 0) - (a.clicks || 0) || (b.impressions || 0) - (a.impressions || 0));
+
+    return {
+      data: {
+        rows: rows.slice(0, maxRows),
+        responseAggregationType: perDay[0]?.aggregationType,
+      },
+      pagination: {
+        requests: perDay.reduce((sum, day) => sum + day.requests, 0),
+        days: days.length,
+        truncated: rows.length > maxRows || perDay.some(day => day.truncated),
+      },
+    };
   }
 
   /**
-   * Detect Quick Wins - Keywords with high impressions but low CTR in positions 4-20
+   * Follow startRow until fewer rows than requested come back or maxRows is reached
+   */
+  private async fetchAllRows(siteUrl: string, body: NonNullable<SearchAnalyticsRequest>, maxRows: number) {
+    const rows: SearchAnalyticsRow[] = [];
+    let startRow = body.startRow || 0;
+    let requests = 0;
+    let exhausted = false;
+    let aggregationType: string | null | undefined;
+
+    while (rows.length < maxRows) {
+      const rowLimit = Math.min(MAX_ROWS_PER_REQUEST, maxRows - rows.length);
+      const result = await this.searchAnalytics(siteUrl, { ...body, rowLimit, startRow });
+      requests++;
+
+      const page = result.data.rows || [];
+      aggregationType = result.data.responseAggregationType;
+      rows.push(...page);
+
+      if (page.length < rowLimit) {
+        exhausted = true;
+        break;
+      }
+      startRow += page.length;
+    }
+
+    return { rows, requests, truncated: !exhausted, aggregationType };
+  }
+
+  /**
+   * Detect Quick Wins - Keywords with high impressions but low CTR in positions 4-20.
+   * Potential clicks come from a CTR-by-position curve fitted on the site's
+   * non-branded queries for the device and search type, or the default curve
+   * when the site has too little data.
    */
   async detectQuickWins(
     siteUrl: string,
@@ -116,18 +389,50 @@ export class SearchConsoleService {
       positionRangeMin: number;
       positionRangeMax: number;
       limit: number;
-    }
-  ): Promise<QuickWin[]> {
-    const result = await this.searchAnalytics(siteUrl, {
-      startDate,
-      endDate,
-      dimensions: ['query', 'page'],
-      rowLimit: 25000,
-      dataState: 'all',
+    },
+    pagination: PaginationOptions = {},
+    dimensionFilterGroups?: DimensionFilterGroup[],
+    model: QuickWinModelOptions = {}
+  ): Promise<{ quickWins: QuickWin[]; ctrCurve: CtrCurve }> {
+    const searchType = model.searchType ?? 'web';
+    const targetPosition = model.targetPosition ?? 3;
+
+    // The curve is fitted on the whole site, not just the filtered rows
+    const [result, curveRows] = await Promise.all([
+      this.searchAnalytics(siteUrl, {
+        startDate,
+        endDate,
+        dimensions: ['query', 'page'],
+        dimensionFilterGroups,
+        searchType,
+        dataState: 'all',
+      }, pagination),
+      model.siteCurve === false
+        ? Promise.resolve([])
+        : this.searchAnalytics(siteUrl, {
+          startDate,
+          endDate,
+          dimensions: ['query', 'device'],
+          searchType,
+          dataState: 'all',
+        }, { maxRows: pagination.maxRows }).then(curveResult => curveResult.data.rows || []),
+    ]);
+
+    const curves = fitCtrCurves(curveRows, {
+      searchType,
+      brandPatterns: model.brandPatterns ?? [],
+      defaultCurve: model.defaultCurve,
     });
+    // A device without enough data of its own uses the all-devices curve
+    const deviceCurve = model.device ? curves.get(model.device)! : undefined;
+    const ctrCurve = deviceCurve && deviceCurve.source === 'site' ? deviceCurve : curves.get('ALL')!;
 
     const rows = result.data.rows || [];
-    
+    // Opportunity levels scale with the clicks of the analyzed rows
+    const totalClicks = rows.reduce((sum, row) => sum + (row.clicks || 0), 0);
+    const highOpportunity = Math.max(HIGH_OPPORTUNITY.minClicks, totalClicks * HIGH_OPPORTUNITY.share);
+    const mediumOpportunity = Math.max(MEDIUM_OPPORTUNITY.minClicks, totalClicks * MEDIUM_OPPORTUNITY.share);
+
     const quickWins = rows
       .filter(row => {
         const impressions = row.impressions || 0;
@@ -147,15 +452,15 @@ export class SearchConsoleService {
         const currentCtr = (row.ctr || 0) * 100;
         const position = row.position || 0;
 
-        // Calculate potential with improved CTR based on position
-        const targetCtr = position <= 5 ? 8 : position <= 10 ? 5 : 3;
-        const potentialClicks = Math.round((impressions * targetCtr) / 100);
+        const expected = expectedCtr(ctrCurve, position);
+        const target = Math.min(targetPosition, position);
+        const targetCtr = expectedCtr(ctrCurve, target);
+        const potentialClicks = Math.round(impressions * targetCtr.ctr);
         const additionalClicks = Math.max(0, potentialClicks - currentClicks);
 
-        // Determine opportunity level
         let opportunity: 'High' | 'Medium' | 'Low';
-        if (additionalClicks >= 100) opportunity = 'High';
-        else if (additionalClicks >= 30) opportunity = 'Medium';
+        if (additionalClicks >= highOpportunity) opportunity = 'High';
+        else if (additionalClicks >= mediumOpportunity) opportunity = 'Medium';
         else opportunity = 'Low';
 
         return {
@@ -165,16 +470,303 @@ export class SearchConsoleService {
           impressions,
           currentClicks,
           currentCtr: Number(currentCtr.toFixed(2)),
+          expectedCtr: Number((expected.ctr * 100).toFixed(2)),
+          targetPosition: Number(target.toFixed(1)),
+          targetCtr: Number((targetCtr.ctr * 100).toFixed(2)),
+          confidence: targetCtr.confidence,
           potentialClicks,
           additionalClicks,
           opportunity,
-          optimizationNote: `Position ${position.toFixed(1)} → Target top 3 for ${targetCtr}% CTR`,
+          optimizationNote: `Position ${position.toFixed(1)} → Target position ${target.toFixed(0)} for ${(targetCtr.ctr * 100).toFixed(1)}% CTR (${ctrCurve.source} curve)`,
         };
       })
       .sort((a, b) => b.additionalClicks - a.additionalClicks)
       .slice(0, thresholds.limit);
 
-    return quickWins;
+    return { quickWins, ctrCurve };
+  }
+
+  /**
+   * Detect Cannibalization - Queries for which several pages of the site
+   * earn meaningful impressions, with how the ranking URL alternates by day
+   */
+  async detectCannibalization(
+    siteUrl: string,
+    startDate: string,
+    endDate: string,
+    thresholds: {
+      // Impressions and share of the query's impressions a page needs to count
+      minPageImpressions: number;
+      minImpressionShare: number;
+      limit: number;
+    },
+    pagination: PaginationOptions = {},
+    dimensionFilterGroups?: DimensionFilterGroup[]
+  ): Promise<{ analyzedQueries: number; conflictingQueries: number; conflicts: CannibalizationConflict[] }> {
+    const result = await this.searchAnalytics(siteUrl, {
+      startDate,
+      endDate,
+      dimensions: ['query', 'page'],
+      dimensionFilterGroups,
+      dataState: 'all',
+    }, pagination);
+
+    const byQuery = new Map<string, SearchAnalyticsRow[]>();
+    for (const row of result.data.rows || []) {
+      const query = row.keys?.[0];
+      if (!query) continue;
+      byQuery.set(query, [...(byQuery.get(query) || []), row]);
+    }
+
+    const candidates = [...byQuery].flatMap(([query, rows]) => {
+      const impressions = rows.reduce((sum, row) => sum + (row.impressions || 0), 0);
+      const competing = rows.filter(row =>
+        (row.impressions || 0) >= thresholds.minPageImpressions &&
+        (row.impressions || 0) / impressions >= thresholds.minImpressionShare
+      );
+      if (competing.length < 2) return [];
+
+      const clicks = rows.reduce((sum, row) => sum + (row.clicks || 0), 0);
+      const bestCtr = Math.max(...competing.map(row => row.ctr || 0));
+      return [{
+        query,
+        clicks,
+        impressions,
+        competing,
+        lostClickPotential: Math.max(0, Math.round(impressions * bestCtr - clicks)),
+      }];
+    });
+    candidates.sort((a, b) => b.lostClickPotential - a.lostClickPotential || b.impressions - a.impressions);
+    const top = candidates.slice(0, thresholds.limit);
+
+    const daily = await this.dailyRankingPages(siteUrl, startDate, endDate, top.map(c => c.query), dimensionFilterGroups);
+
+    const conflicts = top.map(candidate => {
+      const competingPages = new Set(candidate.competing.map(row => row.keys?.[1] || ''));
+      const days = [...(daily.get(candidate.query) || new Map<string, SearchAnalyticsRow[]>())]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, rows]) => rows.filter(row => competingPages.has(row.keys?.[2] || '')))
+        .filter(rows => rows.length > 0);
+
+      // Best-ranked competing page of each day
+      const leaders = days.map(rows =>
+        rows.reduce((best, row) => ((row.position || Infinity) < (best.position || Infinity) ? row : best)).keys?.[2] || ''
+      );
+      const rankingUrlChanges = leaders.filter((page, i) => i > 0 && page !== leaders[i - 1]).length;
+
+      const pages: CannibalizingPage[] = candidate.competing
+        .map(row => ({
+          page: row.keys?.[1] || 'N/A',
+          clicks: row.clicks || 0,
+          impressions: row.impressions || 0,
+          ctr: Number(((row.ctr || 0) * 100).toFixed(2)),
+          position: Number((row.position || 0).toFixed(1)),
+          clickShare: candidate.clicks > 0 ? Number((((row.clicks || 0) / candidate.clicks) * 100).toFixed(1)) : 0,
+          impressionShare: Number((((row.impressions || 0) / candidate.impressions) * 100).toFixed(1)),
+          daysRankingFirst: leaders.filter(page => page === row.keys?.[1]).length,
+        }))
+        .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions);
+
+      const primaryPage = pages[0].page;
+      return {
+        query: candidate.query,
+        clicks: candidate.clicks,
+        impressions: candidate.impressions,
+        pages,
+        lostClickPotential: candidate.lostClickPotential,
+        rankingUrlChanges,
+        daysWithMultiplePages: days.filter(rows => rows.length > 1).length,
+        primaryPage,
+        recommendation: rankingUrlChanges > 0
+          ? `Ranking URL changed ${rankingUrlChanges} times: consolidate into ${primaryPage} (merge or redirect, or differentiate the other ${pages.length - 1} page(s))`
+          : `${pages.length} pages share impressions: strengthen ${primaryPage} and differentiate or canonicalize the others`,
+      };
+    });
+
+    return { analyzedQueries: byQuery.size, conflictingQueries: candidates.length, conflicts };
+  }
+
+  /**
+   * Daily query/page rows of the given queries, by query and date. Queries
+   * are matched with anchored regexes, in chunks to stay under the API's
+   * expression length limit.
+   */
+  private async dailyRankingPages(
+    siteUrl: string,
+    startDate: string,
+    endDate: string,
+    queries: string[],
+    dimensionFilterGroups?: DimensionFilterGroup[]
+  ): Promise<Map<string, Map<string, SearchAnalyticsRow[]>>> {
+    const chunks: string[][] = [];
+    let length = 0;
+    for (const query of queries) {
+      const escaped = escapeRegex(query);
+      if (chunks.length === 0 || length + escaped.length + 1 > MAX_REGEX_LENGTH) {
+        chunks.push([]);
+        length = 4;
+      }
+      chunks[chunks.length - 1].push(escaped);
+      length += escaped.length + 1;
+    }
+
+    const byQuery = new Map<string, Map<string, SearchAnalyticsRow[]>>();
+    for (const chunk of chunks) {
+      const result = await this.searchAnalytics(siteUrl, {
+        startDate,
+        endDate,
+        dimensions: ['date', 'query', 'page'],
+        dimensionFilterGroups: [{
+          filters: [
+            ...(dimensionFilterGroups?.[0]?.filters || []),
+            { dimension: 'query', operator: 'includingRegex', expression: `^(${chunk.join('|')})$` },
+          ],
+        }],
+        dataState: 'all',
+      }, {});
+
+      for (const row of result.data.rows || []) {
+        const [date, query] = row.keys || [];
+        if (!date || !query) continue;
+        const days = byQuery.get(query) || new Map<string, SearchAnalyticsRow[]>();
+        days.set(date, [...(days.get(date) || []), row]);
+        byQuery.set(query, days);
+      }
+    }
+    return byQuery;
+  }
+
+  /**
+   * Detect Content Decay - Pages whose clicks have been declining steadily
+   * from a past peak, by calendar month or rolling 28-day period
+   */
+  async detectContentDecay(
+    siteUrl: string,
+    startDate: string,
+    endDate: string,
+    options: {
+      granularity: 'month' | 'rolling28d';
+      minPeakClicks: number;
+      minDeclinePercent: number;
+      minPeriodsSincePeak: number;
+      limit: number;
+      maxRowsPerPeriod?: number;
+    },
+    dimensionFilterGroups?: DimensionFilterGroup[]
+  ): Promise<{ periods: DecayPeriod[]; analyzedPages: number; decliningPages: number; pages: DecayingPage[] }> {
+    const periods = decayPeriods(startDate, endDate, options.granularity);
+    const days = periods.map(period => listDays(period.start, period.end).length);
+
+    const perPeriod = await mapWithConcurrency(periods, DAY_SPLIT_CONCURRENCY, period =>
+      this.searchAnalytics(siteUrl, {
+        startDate: period.start,
+        endDate: period.end,
+        dimensions: ['page'],
+        dimensionFilterGroups,
+        dataState: 'all',
+      }, { maxRows: options.maxRowsPerPeriod })
+    );
+
+    const series = new Map<string, number[]>();
+    perPeriod.forEach((result, index) => {
+      for (const row of result.data.rows || []) {
+        const page = row.keys?.[0];
+        if (!page) continue;
+        const clicks = series.get(page) || new Array(periods.length).fill(0);
+        clicks[index] = row.clicks || 0;
+        series.set(page, clicks);
+      }
+    });
+
+    const candidates = [...series].flatMap(([page, clicks]) => {
+      // Compare daily rates so months of different lengths line up
+      const rates = clicks.map((value, i) => value / days[i]);
+      // Last period at the peak rate, so a plateau doesn't count as decline
+      const peak = rates.lastIndexOf(Math.max(...rates));
+      const last = rates.length - 1;
+      const periodsSincePeak = last - peak;
+      if (clicks[peak] < options.minPeakClicks || periodsSincePeak < options.minPeriodsSincePeak) return [];
+
+      const declinePercent = ((rates[peak] - rates[last]) / rates[peak]) * 100;
+      if (declinePercent < options.minDeclinePercent) return [];
+
+      const trend = linearTrend(rates.slice(peak));
+      if (trend.slope >= 0 || trend.r2 < STEADY_DECLINE_R2) return [];
+
+      return [{
+        page,
+        clicks,
+        peakPeriod: periods[peak].label,
+        peakClicks: clicks[peak],
+        currentClicks: clicks[last],
+        lostClicks: Math.round((rates[peak] - rates[last]) * days[last]),
+        declinePercent: Number(declinePercent.toFixed(1)),
+        periodsSincePeak,
+        trendPercentPerPeriod: Number(((trend.slope / rates[peak]) * 100).toFixed(1)),
+        trendR2: Number(trend.r2.toFixed(2)),
+        peakIndex: peak,
+      }];
+    });
+    candidates.sort((a, b) => b.lostClicks - a.lostClicks);
+    const top = candidates.slice(0, options.limit);
+
+    const pages = await mapWithConcurrency(top, DAY_SPLIT_CONCURRENCY, async ({ peakIndex, ...candidate }) => ({
+      ...candidate,
+      topLostQueries: await this.lostQueries(
+        siteUrl,
+        candidate.page,
+        periods[peakIndex],
+        periods[periods.length - 1],
+        dimensionFilterGroups
+      ),
+    }));
+
+    return { periods, analyzedPages: series.size, decliningPages: candidates.length, pages };
+  }
+
+  /**
+   * Queries of a page that lost the most clicks between two periods
+   */
+  private async lostQueries(
+    siteUrl: string,
+    page: string,
+    peak: DecayPeriod,
+    current: DecayPeriod,
+    dimensionFilterGroups?: DimensionFilterGroup[]
+  ): Promise<DecayingPage['topLostQueries']> {
+    const [before, after] = await Promise.all([peak, current].map(period =>
+      this.searchAnalytics(siteUrl, {
+        startDate: period.start,
+        endDate: period.end,
+        dimensions: ['query'],
+        dimensionFilterGroups: [{
+          filters: [
+            ...(dimensionFilterGroups?.[0]?.filters || []),
+            { dimension: 'page', operator: 'equals', expression: page },
+          ],
+        }],
+        dataState: 'all',
+      }, {})
+    ));
+
+    // Scale the peak to the current period's length
+    const ratio = listDays(current.start, current.end).length / listDays(peak.start, peak.end).length;
+    const currentClicks = new Map((after.data.rows || []).map(row => [row.keys?.[0] || '', row.clicks || 0]));
+    const losses = (before.data.rows || [])
+      .map(row => {
+        const query = row.keys?.[0] || '';
+        const peakClicks = row.clicks || 0;
+        const clicks = currentClicks.get(query) || 0;
+        return { query, peakClicks, currentClicks: clicks, lostClicks: Math.round(peakClicks * ratio - clicks) };
+      })
+      .filter(loss => loss.lostClicks > 0)
+      .sort((a, b) => b.lostClicks - a.lostClicks);
+
+    const total = losses.reduce((sum, loss) => sum + loss.lostClicks, 0);
+    return losses.slice(0, LOST_QUERIES).map(loss => ({
+      ...loss,
+      share: Number(((loss.lostClicks / total) * 100).toFixed(1)),
+    }));
   }
 
   /**
@@ -182,26 +774,123 @@ export class SearchConsoleService {
    */
   async inspectUrl(siteUrl: string, inspectionUrl: string, languageCode: string = 'en-US') {
     const searchConsole = this.getSearchConsole();
-    return searchConsole.urlInspection.index.inspect({
-      requestBody: {
-        siteUrl,
-        inspectionUrl,
-        languageCode,
-      },
-    });
+    return this.request(
+      () => searchConsole.urlInspection.index.inspect({
+        requestBody: {
+          siteUrl,
+          inspectionUrl,
+          languageCode,
+        },
+      }),
+      'urlInspection',
+      siteUrl
+    );
   }
 
   /**
    * Submit URL for Indexing (Indexing API)
+   *
+   * Not retried unless asked: a publish that failed with a server error may
+   * still have been recorded by Google, and a retry sends it again.
    */
-  async submitUrlForIndexing(url: string, type: 'URL_UPDATED' | 'URL_DELETED' = 'URL_UPDATED') {
+  async submitUrlForIndexing(
+    url: string,
+    type: 'URL_UPDATED' | 'URL_DELETED' = 'URL_UPDATED',
+    options: { retry?: boolean } = {}
+  ) {
     const indexing = this.getIndexing();
-    return indexing.urlNotifications.publish({
-      requestBody: {
-        url,
-        type,
-      },
-    });
+    return this.request(
+      () => indexing.urlNotifications.publish({
+        requestBody: {
+          url,
+          type,
+        },
+      }),
+      'indexingPublish',
+      '*',
+      options.retry ? {} : { retries: 0 }
+    );
+  }
+
+  /**
+   * Publish up to 100 URL notifications in one Indexing API batch request.
+   * Each URL takes one unit of the publish quota, taken for the whole batch
+   * before sending. The batch itself is never resent, since Google may have
+   * accepted some of its parts; only parts answered with 429 or 5xx are
+   * retried, on the units already taken. Per-URL failures are reported in
+   * the results rather than thrown.
+   */
+  async publishUrlNotificationsBatch(notifications: UrlNotification[]): Promise<BatchPartResult[]> {
+    if (notifications.length > MAX_BATCH_SIZE) {
+      throw new Error(`A batch holds at most ${MAX_BATCH_SIZE} notifications, got ${notifications.length}`);
+    }
+    if (notifications.length === 0) return [];
+
+    try {
+      await this.acquireQuota('indexingPublish', '*', notifications.length);
+    } catch (err) {
+      throw classifyApiError(err) ?? err;
+    }
+
+    const results = await this.sendBatch(notifications);
+    for (let attempt = 0; attempt < PART_RETRIES; attempt++) {
+      const retryable = results
+        .map((result, index) => ({ result, index }))
+        .filter(({ result }) => result.status === 429 || result.status >= 500);
+      if (retryable.length === 0) break;
+
+      await new Promise(resolve => setTimeout(resolve, Math.random() * PART_RETRY_BASE_DELAY_MS * 2 ** attempt));
+      let retried: BatchPartResult[];
+      try {
+        retried = await this.sendBatch(retryable.map(({ index }) => notifications[index]));
+      } catch {
+        // Keep the failed parts as they were answered the first time
+        break;
+      }
+      retried.forEach((result, i) => {
+        results[retryable[i].index] = result;
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Send one batch request, without retries
+   */
+  private async sendBatch(notifications: UrlNotification[]): Promise<BatchPartResult[]> {
+    const { boundary, body } = buildBatchBody(notifications);
+    let response;
+    try {
+      response = await this.authClient.request<string>({
+        url: INDEXING_BATCH_URL,
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+        data: body,
+        responseType: 'text',
+      });
+    } catch (err) {
+      throw classifyApiError(err) ?? err;
+    }
+
+    return parseBatchResponse(String(response.headers['content-type'] || ''), response.data, notifications);
+  }
+
+  /**
+   * Latest update and remove notifications Google received for a URL.
+   * Returns undefined when none was ever published.
+   */
+  async getUrlNotificationMetadata(url: string) {
+    const indexing = this.getIndexing();
+    try {
+      const response = await this.request(
+        () => indexing.urlNotifications.getMetadata({ url }),
+        'indexingMetadata'
+      );
+      return response.data;
+    } catch (err) {
+      if (err instanceof GscApiError && err.kind === 'not_found') return undefined;
+      throw err;
+    }
   }
 
   /**
@@ -209,10 +898,7 @@ export class SearchConsoleService {
    */
   async listSitemaps(siteUrl: string) {
     const webmasters = this.getWebmasters();
-    return this.handlePermissionError(
-      () => webmasters.sitemaps.list({ siteUrl }),
-      () => webmasters.sitemaps.list({ siteUrl: this.normalizeUrl(siteUrl) })
-    );
+    return this.handlePermissionError(siteUrl, (site) => webmasters.sitemaps.list({ siteUrl: site }));
   }
 
   /**
@@ -220,17 +906,55 @@ export class SearchConsoleService {
    */
   async submitSitemap(siteUrl: string, feedpath: string) {
     const webmasters = this.getWebmasters();
-    return this.handlePermissionError(
-      () => webmasters.sitemaps.submit({ siteUrl, feedpath }),
-      () => webmasters.sitemaps.submit({ 
-        siteUrl: this.normalizeUrl(siteUrl), 
-        feedpath 
-      })
-    );
+    return this.handlePermissionError(siteUrl, (site) => webmasters.sitemaps.submit({ siteUrl: site, feedpath }));
+  }
+
+  /**
+   * Get one sitemap: errors, warnings and submitted/indexed counts per content type
+   */
+  async getSitemap(siteUrl: string, feedpath: string) {
+    const webmasters = this.getWebmasters();
+    return this.handlePermissionError(siteUrl, (site) => webmasters.sitemaps.get({ siteUrl: site, feedpath }));
+  }
+
+  /**
+   * Delete Sitemap
+   */
+  async deleteSitemap(siteUrl: string, feedpath: string) {
+    const webmasters = this.getWebmasters();
+    return this.handlePermissionError(siteUrl, (site) => webmasters.sitemaps.delete({ siteUrl: site, feedpath }));
+  }
+
+  /**
+   * Get a site and the account's permission level on it
+   */
+  async getSite(siteUrl: string) {
+    const webmasters = this.getWebmasters();
+    return this.handlePermissionError(siteUrl, (site) => webmasters.sites.get({ siteUrl: site }));
+  }
+
+  /**
+   * Add a site to the account. No sc-domain fallback: the property is added as given.
+   */
+  async addSite(siteUrl: string) {
+    const webmasters = this.getWebmasters();
+    return this.request(() => webmasters.sites.add({ siteUrl }));
   }
 
   /**
-   * Compare two time periods
+   * Remove a site from the account. No sc-domain fallback: only the property
+   * as given is removed.
+   */
+  async deleteSite(siteUrl: string) {
+    const webmasters = this.getWebmasters();
+    return this.request(() => webmasters.sites.delete({ siteUrl }));
+  }
+
+  /**
+   * Compare two time periods row by row: every key of either period is
+   * classified as new, lost, improved, declined or stable, the net click
+   * change is attributed to those categories and the biggest movers are
+   * ranked per metric
    */
   async comparePeriods(
     siteUrl: string,
@@ -239,103 +963,44 @@ export class SearchConsoleService {
     previousStart: string,
     previousEnd: string,
     dimensions: string[] = ['query'],
-    rowLimit: number = 100
+    rowLimit: number = 25,
+    pagination: PaginationOptions = {},
+    dimensionFilterGroups?: DimensionFilterGroup[],
+    stablePercent: number = 10
   ) {
+    // Both periods are fetched in full so deltas aren't skewed by independent top-N cuts
     const [current, previous] = await Promise.all([
       this.searchAnalytics(siteUrl, {
         startDate: currentStart,
         endDate: currentEnd,
         dimensions,
-        rowLimit,
+        dimensionFilterGroups,
         dataState: 'all',
-      }),
+      }, pagination),
       this.searchAnalytics(siteUrl, {
         startDate: previousStart,
         endDate: previousEnd,
         dimensions,
-        rowLimit,
+        dimensionFilterGroups,
         dataState: 'all',
-      }),
+      }, pagination),
     ]);
 
     const currentRows = current.data.rows || [];
     const previousRows = previous.data.rows || [];
+    const { byStatus, winners, losers } = diffPeriods(currentRows, previousRows, { limit: rowLimit, stablePercent });
 
-    // Create lookup for previous period
-    const previousLookup = new Map(
-      previousRows.map(row => [row.keys?.join('|'), row])
-    );
-
-    // Compare and calculate changes
-    const comparison = currentRows.map(currentRow => {
-      const key = currentRow.keys?.join('|');
-      const previousRow = previousLookup.get(key || '');
-
-      const currentClicks = currentRow.clicks || 0;
-      const previousClicks = previousRow?.clicks || 0;
-      const currentImpressions = currentRow.impressions || 0;
-      const previousImpressions = previousRow?.impressions || 0;
-      const currentPosition = currentRow.position || 0;
-      const previousPosition = previousRow?.position || 0;
-      const currentCtr = (currentRow.ctr || 0) * 100;
-      const previousCtr = (previousRow?.ctr || 0) * 100;
-
-      return {
-        keys: currentRow.keys,
-        current: {
-          clicks: currentClicks,
-          impressions: currentImpressions,
-          position: Number(currentPosition.toFixed(1)),
-          ctr: Number(currentCtr.toFixed(2)),
-        },
-        previous: {
-          clicks: previousClicks,
-          impressions: previousImpressions,
-          position: Number(previousPosition.toFixed(1)),
-          ctr: Number(previousCtr.toFixed(2)),
-        },
-        change: {
-          clicks: currentClicks - previousClicks,
-          clicksPercent: previousClicks > 0 
-            ? Number((((currentClicks - previousClicks) / previousClicks) * 100).toFixed(1))
-            : null,
-          impressions: currentImpressions - previousImpressions,
-          position: Number((previousPosition - currentPosition).toFixed(1)), // Positive = improved
-          ctr: Number((currentCtr - previousCtr).toFixed(2)),
-        },
-      };
-    });
-
-    // Sort by biggest click gains
-    comparison.sort((a, b) => b.change.clicks - a.change.clicks);
-
-    // Calculate totals
-    const currentTotals = currentRows.reduce(
-      (acc, row) => ({
-        clicks: (acc.clicks || 0) + (row.clicks || 0),
-        impressions: (acc.impressions || 0) + (row.impressions || 0),
-      }),
-      { clicks: 0, impressions: 0 }
-    );
-
-    const previousTotals = previousRows.reduce(
-      (acc, row) => ({
-        clicks: (acc.clicks || 0) + (row.clicks || 0),
-        impressions: (acc.impressions || 0) + (row.impressions || 0),
-      }),
-      { clicks: 0, impressions: 0 }
-    );
-
-    const currClicks = currentTotals.clicks || 0;
-    const prevClicks = previousTotals.clicks || 0;
-    const currImpressions = currentTotals.impressions || 0;
-    const prevImpressions = previousTotals.impressions || 0;
+    const total = (rows: SearchAnalyticsRow[], metric: 'clicks' | 'impressions') =>
+      rows.reduce((sum, row) => sum + (row[metric] || 0), 0);
+    const currClicks = total(currentRows, 'clicks');
+    const prevClicks = total(previousRows, 'clicks');
+    const currImpressions = total(currentRows, 'impressions');
+    const prevImpressions = total(previousRows, 'impressions');
 
     return {
-      comparison,
       summary: {
-        currentPeriod: { start: currentStart, end: currentEnd, clicks: currClicks, impressions: currImpressions },
-        previousPeriod: { start: previousStart, end: previousEnd, clicks: prevClicks, impressions: prevImpressions },
+        currentPeriod: { start: currentStart, end: currentEnd, rows: currentRows.length, clicks: currClicks, impressions: currImpressions },
+        previousPeriod: { start: previousStart, end: previousEnd, rows: previousRows.length, clicks: prevClicks, impressions: prevImpressions },
         change: {
           clicks: currClicks - prevClicks,
           clicksPercent: prevClicks > 0
@@ -343,7 +1008,112 @@ export class SearchConsoleService {
             : null,
           impressions: currImpressions - prevImpressions,
         },
+        // Stopped at maxRows: rows beyond the cut show up as new or lost
+        truncated: !!(current.pagination?.truncated || previous.pagination?.truncated),
+        clickChangeByStatus: byStatus,
       },
+      winners,
+      losers,
     };
   }
 }
+
+/**
+ * Requests covering only finalized days won't change anymore and can be kept
+ * long; anything reaching into the last few days (dataState all, or final
+ * data still being filled in) expires quickly
+ */
+function cacheTtl(requestBody: SearchAnalyticsRequest): number {
+  const endDate = requestBody?.endDate;
+  return endDate && endDate <= availableDateWindow('final').latest ? FINAL_TTL_MS : FRESH_TTL_MS;
+}
+
+/**
+ * Split a date range into calendar months or 28-day periods ending on the
+ * last day, dropping periods shorter than two weeks
+ */
+function decayPeriods(startDate: string, endDate: string, granularity: 'month' | 'rolling28d'): DecayPeriod[] {
+  const periods: DecayPeriod[] = [];
+  if (granularity === 'month') {
+    let start = startDate;
+    while (start <= endDate) {
+      const [year, month] = start.split('-').map(Number);
+      const monthEnd = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+      const end = monthEnd < endDate ? monthEnd : endDate;
+      periods.push({ label: start.slice(0, 7), start, end });
+      start = addDays(end, 1);
+    }
+  } else {
+    for (let end = endDate; end >= startDate; end = addDays(end, -28)) {
+      const start = addDays(end, -27) > startDate ? addDays(end, -27) : startDate;
+      periods.unshift({ label: `${start}..${end}`, start, end });
+    }
+  }
+  return periods.filter(period => listDays(period.start, period.end).length >= MIN_PERIOD_DAYS);
+}
+
+/**
+ * Least-squares slope of a series against its index, with the R² of the fit
+ */
+function linearTrend(values: number[]): { slope: number; r2: number } {
+  const n = values.length;
+  if (n < 2) return { slope: 0, r2: 0 };
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  values.forEach((value, x) => {
+    sxy += (x - meanX) * (value - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (value - meanY) ** 2;
+  });
+  const slope = sxy / sxx;
+  return { slope, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0 };
+}
+
+/**
+ * Escape RE2 metacharacters so a string matches literally
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+}
+
+/**
+ * List every date from start to end (inclusive), as YYYY-MM-DD
+ */
+export function listDays(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const end = new Date(`${endDate}T00:00:00Z`);
+  for (let day = new Date(`${startDate}T00:00:00Z`); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+    days.push(day.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Merge rows sharing the same keys: sum clicks and impressions, weight
+ * position by impressions and recompute CTR
+ */
+function mergeRows(rows: SearchAnalyticsRow[]): SearchAnalyticsRow[] {
+  const merged = new Map<string, SearchAnalyticsRow>();
+
+  for (const row of rows) {
+    const key = JSON.stringify(row.keys || []);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...row });
+      continue;
+    }
+
+    const impressions = (existing.impressions || 0) + (row.impressions || 0);
+    existing.position = impressions > 0
+      ? ((existing.position || 0) * (existing.impressions || 0) + (row.position || 0) * (row.impressions || 0)) / impressions
+      : existing.position;
+    existing.clicks = (existing.clicks || 0) + (row.clicks || 0);
+    existing.impressions = impressions;
+    existing.ctr = impressions > 0 ? existing.clicks / impressions : 0;
+  }
+
+  return [...merged.values()];
+}
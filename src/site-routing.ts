@@ -0,0 +1,132 @@
+/**
+ * Site to account routing
+ *
+ * Matches a requested siteUrl against the properties each account can see
+ * (from sites.list) and ranks the candidates: closest property match first
+ * (exact property > covering domain property > URL-prefix property), then
+ * higher permission (owner > full user > restricted user). Only exact and
+ * domain matches can serve API calls for the requested siteUrl; prefix and
+ * partial matches are kept as hints for find_site_owner. Unverified
+ * properties are never candidates.
+ */
+
+export type MatchType = 'exact' | 'domain' | 'prefix' | 'partial';
+
+export interface SiteIndexEntry {
+  siteUrl: string;
+  permissionLevel: string;
+  accountId: string;
+  email: string;
+}
+
+export interface SiteCandidate extends SiteIndexEntry {
+  match: MatchType;
+}
+
+const PERMISSION_RANK: Record<string, number> = {
+  siteOwner: 0,
+  siteFullUser: 1,
+  siteRestrictedUser: 2,
+};
+
+const MATCH_RANK: Record<MatchType, number> = {
+  exact: 0,
+  domain: 1,
+  prefix: 2,
+  partial: 3,
+};
+
+const MATCH_DESCRIPTIONS: Record<MatchType, string> = {
+  exact: 'exact property',
+  domain: 'domain property covering the URL host',
+  prefix: 'URL-prefix property containing the URL',
+  partial: 'URL-prefix property on the domain',
+};
+
+type ParsedSite =
+  | { kind: 'domain'; domain: string }
+  | { kind: 'url'; url: string; host: string };
+
+/**
+ * Parse a site URL or sc-domain property into a comparable form
+ */
+function parseSite(siteUrl: string): ParsedSite | undefined {
+  if (siteUrl.startsWith('sc-domain:')) {
+    return { kind: 'domain', domain: siteUrl.slice('sc-domain:'.length).toLowerCase() };
+  }
+  try {
+    const url = new URL(siteUrl);
+    const pathname = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+    return { kind: 'url', url: `${url.protocol}//${url.host.toLowerCase()}${pathname}`, host: url.hostname.toLowerCase() };
+  } catch {
+    return undefined;
+  }
+}
+
+export function isSameOrSubdomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * How a property relates to the requested site, if at all
+ */
+export function matchSite(requested: string, property: string): MatchType | undefined {
+  const req = parseSite(requested);
+  const prop = parseSite(property);
+  if (!req || !prop) {
+    return requested === property ? 'exact' : undefined;
+  }
+
+  if (req.kind === 'domain') {
+    if (prop.kind === 'domain') return prop.domain === req.domain ? 'exact' : undefined;
+    return isSameOrSubdomain(prop.host, req.domain) ? 'partial' : undefined;
+  }
+
+  if (prop.kind === 'domain') {
+    return isSameOrSubdomain(req.host, prop.domain) ? 'domain' : undefined;
+  }
+  if (req.url === prop.url) return 'exact';
+  return req.url.startsWith(prop.url) ? 'prefix' : undefined;
+}
+
+/**
+ * Find and rank the accounts able to query a site, best first
+ */
+export function rankSiteCandidates(siteUrl: string, entries: SiteIndexEntry[]): SiteCandidate[] {
+  const candidates: SiteCandidate[] = [];
+  for (const entry of entries) {
+    if (!(entry.permissionLevel in PERMISSION_RANK)) continue;
+    const match = matchSite(siteUrl, entry.siteUrl);
+    if (match) candidates.push({ ...entry, match });
+  }
+
+  // Array.sort is stable, so ties keep the account configuration order
+  return candidates.sort(
+    (a, b) =>
+      MATCH_RANK[a.match] - MATCH_RANK[b.match] ||
+      PERMISSION_RANK[a.permissionLevel] - PERMISSION_RANK[b.permissionLevel]
+  );
+}
+
+/**
+ * Whether API calls for the requested siteUrl can go through the candidate's
+ * property: the property itself, or the sc-domain property the service falls
+ * back to
+ */
+export function canServe(candidate: SiteCandidate): boolean {
+  return candidate.match === 'exact' || candidate.match === 'domain';
+}
+
+/**
+ * Human-readable explanation of why a candidate was chosen
+ */
+export function explainChoice(chosen: SiteCandidate, candidates: SiteCandidate[]): string {
+  const others = candidates.filter(c => c.accountId !== chosen.accountId);
+  let reason = `${chosen.email} is ${chosen.permissionLevel} of ${chosen.siteUrl} (${MATCH_DESCRIPTIONS[chosen.match]})`;
+  if (others.length > 0) {
+    reason += `; preferred over ${others
+      .map(c => `${c.email} (${c.permissionLevel} of ${c.siteUrl})`)
+      .join(', ')}`;
+  }
+  return reason;
+}
@@ -0,0 +1,375 @@
+/**
+ * Sitemap content analysis
+ *
+ * GSC only reports sitemap metadata. fetchSitemaps downloads sitemaps over
+ * HTTP(S), gunzips them when needed and follows sitemap indexes to collect
+ * every URL with its lastmod. The protocol doesn't allow nested indexes, but
+ * some sites use them: they are followed up to MAX_INDEX_DEPTH levels, and
+ * the sitemaps of deeper indexes are listed as skipped. analyzeSitemap
+ * summarizes the URL set (counts, lastmod age, duplicates, URLs outside the
+ * property) and crossCheckSitemap compares it with search analytics and,
+ * optionally, a sample of URL inspections.
+ *
+ * Any URL is fetched as given, so a local HTTP server can stand in for a
+ * real site.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import * as zlib from 'zlib';
+import { mapWithConcurrency } from './concurrency.js';
+import { InspectionSummary, bulkInspectUrls } from './bulk-inspection.js';
+import { SearchConsoleService } from './search-console.js';
+
+// Limits of the sitemap protocol
+export const MAX_SITEMAP_URLS = 50000;
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30000;
+// Sitemap indexes followed below the given sitemap (1 = no nesting)
+const MAX_INDEX_DEPTH = 3;
+// Parallel downloads of the child sitemaps of an index
+const CHILD_CONCURRENCY = 4;
+// URLs listed per group in reports
+const SAMPLE_URLS = 20;
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  // Sitemap file the URL was listed in
+  sitemap: string;
+}
+
+export interface SitemapFile {
+  url: string;
+  kind: 'urlset' | 'sitemapindex';
+  urlCount: number;
+  gzipped: boolean;
+  error?: string;
+}
+
+export interface FetchedSitemap {
+  entries: SitemapEntry[];
+  sitemaps: SitemapFile[];
+  // Sitemaps of indexes nested deeper than MAX_INDEX_DEPTH, not downloaded
+  skipped: { url: string; index: string; reason: string }[];
+  // Stopped at maxSitemaps or maxUrls
+  truncated: boolean;
+}
+
+export interface FetchSitemapOptions {
+  // Sitemap files to download, the index included (default: 100)
+  maxSitemaps?: number;
+  // URLs to collect over all files (default: 500,000)
+  maxUrls?: number;
+  timeoutMs?: number;
+}
+
+export interface SitemapAnalysis {
+  totalUrls: number;
+  uniqueUrls: number;
+  duplicates: { count: number; urls: { url: string; occurrences: number; sitemaps: string[] }[] };
+  offHost: { count: number; hosts: Record<string, number>; urls: string[] };
+  lastmod: {
+    missing: number;
+    invalid: number;
+    distribution: Record<string, number>;
+    oldest?: string;
+    newest?: string;
+  };
+  sitemaps: SitemapFile[];
+  skipped: FetchedSitemap['skipped'];
+  truncated: boolean;
+}
+
+export interface SitemapCrossCheck {
+  dateRange: { start: string; end: string };
+  urlsWithImpressions: number;
+  zeroImpressionUrls: { count: number; urls: string[] };
+  // Pages with impressions missing from the sitemap
+  pagesNotInSitemap: { count: number; urls: { url: string; impressions: number }[] };
+  inspection?: { sampled: number; summary: InspectionSummary; skippedUrls: string[] };
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: name => name === 'url' || name === 'sitemap',
+});
+
+interface ParsedSitemap {
+  urlset?: { url?: { loc?: string; lastmod?: string }[] };
+  sitemapindex?: { sitemap?: { loc?: string; lastmod?: string }[] };
+}
+
+/**
+ * Download one sitemap file, gunzipping it when it is compressed
+ */
+async function download(url: string, timeoutMs: number): Promise<{ text: string; gzipped: boolean }> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'Accept': 'application/xml, text/xml, application/gzip, */*' },
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  const body = await readCapped(response, MAX_SITEMAP_BYTES);
+  // fetch already decodes Content-Encoding: gzip; .xml.gz files arrive compressed
+  const gzipped = body[0] === 0x1f && body[1] === 0x8b;
+  if (!gzipped) return { text: body.toString('utf-8'), gzipped };
+
+  let unzipped: Buffer;
+  try {
+    unzipped = zlib.gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+  } catch (e) {
+    if (e instanceof RangeError || (e as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Uncompressed sitemap exceeds the ${MAX_SITEMAP_BYTES / 1024 / 1024} MB allowed per sitemap`);
+    }
+    throw e;
+  }
+  return { text: unzipped.toString('utf-8'), gzipped };
+}
+
+/**
+ * Read a response body, giving up as soon as it exceeds maxBytes
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Sitemap exceeds the ${maxBytes / 1024 / 1024} MB allowed per sitemap`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch sitemaps or sitemap indexes and collect the URLs of every sitemap
+ * they list. Files that fail to download or parse are reported in the
+ * result; it only throws when none of the given sitemaps could be read.
+ */
+export async function fetchSitemaps(urls: string[], options: FetchSitemapOptions = {}): Promise<FetchedSitemap> {
+  const maxSitemaps = options.maxSitemaps ?? 100;
+  const maxUrls = options.maxUrls ?? 500000;
+  const timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+
+  const result: FetchedSitemap = { entries: [], sitemaps: [], skipped: [], truncated: false };
+  const seen = new Set<string>();
+
+  const load = async (sitemapUrl: string, depth: number): Promise<void> => {
+    if (seen.has(sitemapUrl)) return;
+    if (seen.size >= maxSitemaps || result.entries.length >= maxUrls) {
+      result.truncated = true;
+      return;
+    }
+    seen.add(sitemapUrl);
+
+    const file: SitemapFile = { url: sitemapUrl, kind: 'urlset', urlCount: 0, gzipped: false };
+    result.sitemaps.push(file);
+
+    let parsed: ParsedSitemap;
+    try {
+      const { text, gzipped } = await download(sitemapUrl, timeoutMs);
+      file.gzipped = gzipped;
+      parsed = parser.parse(text);
+    } catch (e) {
+      file.error = e instanceof Error ? e.message : String(e);
+      return;
+    }
+
+    if (parsed.sitemapindex) {
+      file.kind = 'sitemapindex';
+      const children = (parsed.sitemapindex.sitemap || []).map(child => child.loc).filter((loc): loc is string => !!loc);
+      file.urlCount = children.length;
+      if (depth >= MAX_INDEX_DEPTH) {
+        const reason = `Sitemap index nested more than ${MAX_INDEX_DEPTH} levels deep`;
+        result.skipped.push(...children.map(child => ({ url: child, index: sitemapUrl, reason })));
+        return;
+      }
+      await mapWithConcurrency(children, CHILD_CONCURRENCY, child => load(child, depth + 1));
+    } else if (parsed.urlset) {
+      const urls = parsed.urlset.url || [];
+      for (const entry of urls) {
+        if (!entry.loc) continue;
+        if (result.entries.length >= maxUrls) {
+          result.truncated = true;
+          break;
+        }
+        result.entries.push({ loc: entry.loc, lastmod: entry.lastmod || undefined, sitemap: sitemapUrl });
+        file.urlCount++;
+      }
+      if (urls.length > MAX_SITEMAP_URLS) {
+        file.error = `Lists ${urls.length} URLs, more than the ${MAX_SITEMAP_URLS} allowed per sitemap`;
+      }
+    } else {
+      file.error = 'Not a sitemap: no <urlset> or <sitemapindex> root element';
+    }
+  };
+
+  for (const url of urls) {
+    await load(url, 0);
+  }
+
+  const roots = result.sitemaps.filter(file => urls.includes(file.url));
+  if (roots.length > 0 && roots.every(file => file.error)) {
+    throw new Error(roots.map(file => `Failed to read sitemap ${file.url}: ${file.error}`).join('; '));
+  }
+  return result;
+}
+
+/**
+ * Whether a URL belongs to a property: the domain and its subdomains for
+ * sc-domain properties, the URL prefix otherwise
+ */
+export function isInProperty(url: string, siteUrl: string): boolean {
+  if (siteUrl.startsWith('sc-domain:')) {
+    const domain = siteUrl.slice('sc-domain:'.length).toLowerCase();
+    try {
+      const host = new URL(url).hostname.toLowerCase();
+      return host === domain || host.endsWith(`.${domain}`);
+    } catch {
+      return false;
+    }
+  }
+  return url.startsWith(siteUrl);
+}
+
+function lastmodBucket(ageDays: number): string {
+  if (ageDays < 0) return 'future';
+  if (ageDays <= 7) return '0-7d';
+  if (ageDays <= 30) return '8-30d';
+  if (ageDays <= 90) return '31-90d';
+  if (ageDays <= 365) return '91-365d';
+  return '>365d';
+}
+
+/**
+ * Summarize the URLs of a fetched sitemap against the property it belongs to
+ */
+export function analyzeSitemap(sitemap: FetchedSitemap, siteUrl: string, now: Date = new Date()): SitemapAnalysis {
+  const occurrences = new Map<string, string[]>();
+  for (const entry of sitemap.entries) {
+    occurrences.set(entry.loc, [...(occurrences.get(entry.loc) || []), entry.sitemap]);
+  }
+  const duplicates = [...occurrences].filter(([, sitemaps]) => sitemaps.length > 1);
+
+  const offHost = [...occurrences.keys()].filter(url => !isInProperty(url, siteUrl));
+  const hosts: Record<string, number> = {};
+  for (const url of offHost) {
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      host = 'invalid URL';
+    }
+    hosts[host] = (hosts[host] || 0) + 1;
+  }
+
+  const lastmod: SitemapAnalysis['lastmod'] = {
+    missing: 0,
+    invalid: 0,
+    distribution: { '0-7d': 0, '8-30d': 0, '31-90d': 0, '91-365d': 0, '>365d': 0, 'future': 0 },
+  };
+  for (const entry of sitemap.entries) {
+    if (!entry.lastmod) {
+      lastmod.missing++;
+      continue;
+    }
+    const time = Date.parse(entry.lastmod);
+    if (Number.isNaN(time)) {
+      lastmod.invalid++;
+      continue;
+    }
+    lastmod.distribution[lastmodBucket(Math.floor((now.getTime() - time) / 86_400_000))]++;
+    const date = new Date(time).toISOString().slice(0, 10);
+    if (!lastmod.oldest || date < lastmod.oldest) lastmod.oldest = date;
+    if (!lastmod.newest || date > lastmod.newest) lastmod.newest = date;
+  }
+
+  return {
+    totalUrls: sitemap.entries.length,
+    uniqueUrls: occurrences.size,
+    duplicates: {
+      count: duplicates.length,
+      urls: duplicates.slice(0, SAMPLE_URLS).map(([url, sitemaps]) => ({
+        url,
+        occurrences: sitemaps.length,
+        sitemaps: [...new Set(sitemaps)],
+      })),
+    },
+    offHost: { count: offHost.length, hosts, urls: offHost.slice(0, SAMPLE_URLS) },
+    lastmod,
+    sitemaps: sitemap.sitemaps,
+    skipped: sitemap.skipped,
+    truncated: sitemap.truncated,
+  };
+}
+
+/**
+ * Compare sitemap URLs with the pages that got impressions in a date range,
+ * and optionally inspect a random sample of the URLs without impressions
+ */
+export async function crossCheckSitemap(
+  service: SearchConsoleService,
+  siteUrl: string,
+  urls: string[],
+  options: { startDate: string; endDate: string; inspectSample?: number; concurrency?: number }
+): Promise<SitemapCrossCheck> {
+  const result = await service.searchAnalytics(siteUrl, {
+    startDate: options.startDate,
+    endDate: options.endDate,
+    dimensions: ['page'],
+  }, {});
+
+  const impressions = new Map<string, number>();
+  for (const row of result.data.rows || []) {
+    const page = row.keys?.[0];
+    if (page) impressions.set(page, row.impressions || 0);
+  }
+
+  const listed = new Set(urls);
+  const zeroImpressions = [...listed].filter(url => !impressions.get(url));
+  const notInSitemap = [...impressions]
+    .filter(([page]) => !listed.has(page))
+    .sort((a, b) => b[1] - a[1]);
+
+  const crossCheck: SitemapCrossCheck = {
+    dateRange: { start: options.startDate, end: options.endDate },
+    urlsWithImpressions: listed.size - zeroImpressions.length,
+    zeroImpressionUrls: { count: zeroImpressions.length, urls: zeroImpressions.slice(0, SAMPLE_URLS) },
+    pagesNotInSitemap: {
+      count: notInSitemap.length,
+      urls: notInSitemap.slice(0, SAMPLE_URLS).map(([url, count]) => ({ url, impressions: count })),
+    },
+  };
+
+  if (options.inspectSample && zeroImpressions.length > 0) {
+    const sample = shuffle(zeroImpressions).slice(0, options.inspectSample);
+    const inspection = await bulkInspectUrls(service, siteUrl, sample, { concurrency: options.concurrency ?? 5 });
+    crossCheck.inspection = {
+      sampled: sample.length,
+      summary: inspection.summary,
+      skippedUrls: inspection.skippedUrls,
+    };
+  }
+
+  return crossCheck;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
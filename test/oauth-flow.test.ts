@@ -0,0 +1,122 @@
+/**
+ * OAuth consent flow against a local stand-in token endpoint
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AuthorizationFlow } from '../src/oauth-flow.js';
+
+const EMAIL = 'owner@example.com';
+
+function idToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+}
+
+describe('AuthorizationFlow', () => {
+  let server: http.Server;
+  // Form parameters of every token request received
+  const tokenRequests: URLSearchParams[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        tokenRequests.push(params);
+        if (req.url !== '/token' || params.get('code') === 'bad-code') {
+          res.writeHead(400, { 'Content-Type': 'application/json' })
+            .end(JSON.stringify({ error: 'invalid_grant', error_description: 'Bad code' }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+          access_token: 'access-token',
+          refresh_token: 'refresh-token',
+          expires_in: 3600,
+          scope: 'https://www.googleapis.com/auth/webmasters openid email',
+          token_type: 'Bearer',
+          id_token: idToken({ email: EMAIL }),
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    process.env.GOOGLE_OAUTH_AUTH_URL = `http://127.0.0.1:${port}/auth`;
+    process.env.GOOGLE_OAUTH_TOKEN_URL = `http://127.0.0.1:${port}/token`;
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.GOOGLE_OAUTH_AUTH_URL;
+    delete process.env.GOOGLE_OAUTH_TOKEN_URL;
+  });
+
+  it('exchanges a pasted redirect URL for tokens with PKCE', async () => {
+    const flow = new AuthorizationFlow('default-client', 'default-secret');
+    const started = await flow.start({ accountId: 'site-owner', mode: 'manual' });
+
+    const authUrl = new URL(started.authUrl);
+    assert.equal(authUrl.origin + authUrl.pathname, process.env.GOOGLE_OAUTH_AUTH_URL);
+    assert.equal(authUrl.searchParams.get('state'), started.authorizationId);
+    assert.equal(authUrl.searchParams.get('code_challenge_method'), 'S256');
+
+    const completed = await flow.complete(started.authorizationId, {
+      code: `http://localhost/?state=${started.authorizationId}&code=manual-code`,
+    });
+    assert.equal(completed.accountId, 'site-owner');
+    assert.equal(completed.email, EMAIL);
+    assert.equal(completed.refreshToken, 'refresh-token');
+    assert.equal(completed.clientId, undefined);
+
+    const request = tokenRequests[tokenRequests.length - 1];
+    assert.equal(request.get('code'), 'manual-code');
+    assert.equal(request.get('client_id'), 'default-client');
+    assert.equal(request.get('redirect_uri'), 'http://localhost');
+    assert.ok(request.get('code_verifier'));
+
+    await assert.rejects(flow.complete(started.authorizationId, { code: 'again' }), /not found or expired/);
+  });
+
+  it('receives the code on the loopback listener', async () => {
+    const flow = new AuthorizationFlow();
+    const started = await flow.start({ clientId: 'custom-client', clientSecret: 'custom-secret' });
+
+    const completion = flow.complete(started.authorizationId, { waitSeconds: 5 });
+    const redirect = await fetch(`${started.redirectUri}?state=${started.authorizationId}&code=loopback-code`);
+    assert.equal(redirect.status, 200);
+
+    const completed = await completion;
+    assert.equal(completed.email, EMAIL);
+    assert.equal(completed.clientId, 'custom-client');
+    assert.equal(completed.clientSecret, 'custom-secret');
+
+    const request = tokenRequests[tokenRequests.length - 1];
+    assert.equal(request.get('code'), 'loopback-code');
+    assert.equal(request.get('redirect_uri'), started.redirectUri);
+  });
+
+  it('rejects a pasted URL from another authorization', async () => {
+    const flow = new AuthorizationFlow('default-client', 'default-secret');
+    const started = await flow.start({ mode: 'manual' });
+    await assert.rejects(
+      flow.complete(started.authorizationId, { code: 'http://localhost/?state=other&code=manual-code' }),
+      /state mismatch/
+    );
+    flow.cancel(started.authorizationId);
+  });
+
+  it('reports token endpoint errors', async () => {
+    const flow = new AuthorizationFlow('default-client', 'default-secret');
+    const started = await flow.start({ mode: 'manual' });
+    await assert.rejects(flow.complete(started.authorizationId, { code: 'bad-code' }), /invalid_grant|Bad code/);
+  });
+
+  it('rejects a client ID without its secret', async () => {
+    const flow = new AuthorizationFlow('default-client', 'default-secret');
+    await assert.rejects(flow.start({ mode: 'manual', clientId: 'custom-client' }), /provided together/);
+    await assert.rejects(flow.start({ mode: 'manual', clientSecret: 'custom-secret' }), /provided together/);
+  });
+});
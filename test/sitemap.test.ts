@@ -0,0 +1,100 @@
+/**
+ * Sitemap fetching against a local HTTP stand-in
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { MAX_SITEMAP_BYTES, fetchSitemaps } from '../src/sitemap.js';
+
+function urlset(locs: string[]): string {
+  const urls = locs.map(loc => `<url><loc>${loc}</loc><lastmod>2024-01-01</lastmod></url>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`;
+}
+
+function sitemapIndex(locs: string[]): string {
+  const sitemaps = locs.map(loc => `<sitemap><loc>${loc}</loc></sitemap>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${sitemaps}</sitemapindex>`;
+}
+
+describe('fetchSitemaps', () => {
+  let server: http.Server;
+  let base: string;
+  // Compressed sitemap that inflates past the size limit
+  const gzipBomb = zlib.gzipSync(Buffer.alloc(MAX_SITEMAP_BYTES + 1024 * 1024, ' '));
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const path = req.url || '/';
+      const xml = (body: string | Buffer) => res.writeHead(200, { 'Content-Type': 'application/xml' }).end(body);
+
+      if (path === '/sitemap.xml') return xml(urlset([`${base}/a`, `${base}/b`]));
+      if (path === '/sitemap.xml.gz') return xml(zlib.gzipSync(urlset([`${base}/c`])));
+      if (path === '/index.xml') return xml(sitemapIndex([`${base}/sitemap.xml`, `${base}/sitemap.xml.gz`]));
+      // Each nested index lists the next one, down to /nested/5.xml
+      const nested = /^\/nested\/(\d+)\.xml$/.exec(path);
+      if (nested) {
+        const level = Number(nested[1]);
+        return xml(level < 5 ? sitemapIndex([`${base}/nested/${level + 1}.xml`]) : urlset([`${base}/deep`]));
+      }
+      if (path === '/bomb.xml.gz') return xml(gzipBomb);
+      if (path === '/huge.xml') {
+        // Stream past the limit without holding the body in memory
+        const chunk = Buffer.alloc(1024 * 1024, ' ');
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        let sent = 0;
+        const write = () => {
+          while (sent <= MAX_SITEMAP_BYTES) {
+            sent += chunk.length;
+            if (!res.write(chunk)) return void res.once('drain', write);
+          }
+          res.end();
+        };
+        res.on('error', () => undefined);
+        return write();
+      }
+      res.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('follows an index to plain and gzipped sitemaps', async () => {
+    const fetched = await fetchSitemaps([`${base}/index.xml`]);
+    assert.deepEqual(fetched.entries.map(entry => entry.loc).sort(), [`${base}/a`, `${base}/b`, `${base}/c`]);
+    assert.equal(fetched.sitemaps.find(file => file.url === `${base}/sitemap.xml.gz`)?.gzipped, true);
+    assert.equal(fetched.sitemaps.find(file => file.url === `${base}/index.xml`)?.kind, 'sitemapindex');
+    assert.deepEqual(fetched.skipped, []);
+  });
+
+  it('lists the sitemaps of indexes nested too deep as skipped', async () => {
+    const fetched = await fetchSitemaps([`${base}/nested/0.xml`]);
+    assert.deepEqual(fetched.sitemaps.map(file => file.url), [0, 1, 2, 3].map(level => `${base}/nested/${level}.xml`));
+    assert.deepEqual(fetched.entries, []);
+    assert.equal(fetched.skipped.length, 1);
+    assert.equal(fetched.skipped[0].url, `${base}/nested/4.xml`);
+    assert.equal(fetched.skipped[0].index, `${base}/nested/3.xml`);
+  });
+
+  it('reports a sitemap larger than the limit', async () => {
+    const fetched = await fetchSitemaps([`${base}/sitemap.xml`, `${base}/huge.xml`]);
+    assert.match(fetched.sitemaps[1].error || '', /exceeds the 50 MB/);
+    assert.equal(fetched.entries.length, 2);
+  });
+
+  it('reports a gzipped sitemap that inflates past the limit', async () => {
+    const fetched = await fetchSitemaps([`${base}/sitemap.xml`, `${base}/bomb.xml.gz`]);
+    assert.match(fetched.sitemaps[1].error || '', /Uncompressed sitemap exceeds the 50 MB/);
+  });
+
+  it('throws when none of the given sitemaps can be read', async () => {
+    await assert.rejects(fetchSitemaps([`${base}/missing.xml`]), /HTTP 404/);
+  });
+});